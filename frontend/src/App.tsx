@@ -9,6 +9,7 @@ import { Layout } from './components/Layout';
 import { OnboardingFlow } from './components/OnboardingFlow';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { DashboardPage } from './pages/DashboardPage';
+import { VerifyPage } from './pages/VerifyPage';
 import './App.css';
 import '@solana/wallet-adapter-react-ui/styles.css';
 
@@ -46,6 +47,8 @@ function App() {
                       </ProtectedRoute>
                     }
                   />
+                  {/* Public - anyone can check a shared proof, no wallet needed */}
+                  <Route path="/verify" element={<VerifyPage />} />
                   {/* Legacy routes redirect to dashboard */}
                   <Route path="/status" element={<Navigate to="/dashboard" replace />} />
                   <Route path="/challenge" element={<Navigate to="/dashboard" replace />} />
@@ -4,21 +4,17 @@ import { useSolstice } from '../contexts/SolsticeContext';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { Camera, Upload, Send, Loader, X, AlertCircle, CheckCircle2, Clipboard } from 'lucide-react';
 import { parseAadhaarQR } from '../lib/aadhaarParser';
-
-interface Challenge {
-  challengeId: string;
-  appId: string;
-  appName: string;
-  proofType: 'age' | 'nationality' | 'uniqueness';
-  params: any;
-  expiresAt: number;
-  callbackUrl?: string;
-  nonce: string;
-  createdAt: number;
-}
+import { buildChallengeResponse, submitChallengeResponse } from '../lib/challengeResponder';
+import type { Challenge, ChallengeParams } from '../lib/challengeResponder';
+import { getIdentityInputs } from '../lib/identitySession';
+import { createProofQrAssembler, isProofQrFrame } from '../lib/proofQr';
+import type { ProofBundle } from '../lib/proofBundle';
+import { verifySharedProof } from '../lib/proofVerifier';
+import type { SharedProofVerification } from '../lib/proofVerifier';
+import { ProofVerificationResult } from './ProofVerificationResult';
 
 export function ChallengeScanner() {
-  const { identity, fetchIdentity } = useSolstice();
+  const { identity, fetchIdentity, fetchRegisteredCommitments } = useSolstice();
   const wallet = useWallet();
   const [scanning, setScanning] = useState(false);
   const [challenge, setChallenge] = useState<Challenge | null>(null);
@@ -27,12 +23,15 @@ export function ChallengeScanner() {
   const [error, setError] = useState<string | null>(null);
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [pasteError, setPasteError] = useState<string | null>(null);
+  const [proofScanProgress, setProofScanProgress] = useState<{ received: number; total: number } | null>(null);
+  const [scannedProof, setScannedProof] = useState<{ bundle: ProofBundle; verification: SharedProofVerification | null } | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const proofAssemblerRef = useRef(createProofQrAssembler());
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -151,6 +150,8 @@ export function ChallengeScanner() {
       cancelAnimationFrame(animationFrameRef.current);
       animationFrameRef.current = null;
     }
+    proofAssemblerRef.current.reset();
+    setProofScanProgress(null);
     setScanning(false);
     setCameraError(null);
   };
@@ -171,10 +172,18 @@ export function ChallengeScanner() {
       if (imageData) {
         const code = jsQR(imageData.data, imageData.width, imageData.height);
         if (code) {
-          console.log(' Challenge QR code detected from camera!');
-          stopCamera();
-          handleChallengeQRData(code.data);
-          return;
+          if (isProofQrFrame(code.data)) {
+            // Animated proof QR: keep scanning until every frame has been read
+            if (handleProofQRFrame(code.data)) {
+              stopCamera();
+              return;
+            }
+          } else {
+            console.log(' Challenge QR code detected from camera!');
+            stopCamera();
+            handleChallengeQRData(code.data);
+            return;
+          }
         }
       }
     }
@@ -188,7 +197,42 @@ export function ChallengeScanner() {
     };
   }, []);
 
+  // Check a shared proof: holder signature, expiry and circuit, then the proof itself
+  const verifyScannedProof = async (bundle: ProofBundle) => {
+    setScannedProof({ bundle, verification: null });
+    setScannedProof({ bundle, verification: await verifySharedProof(bundle) });
+  };
+
+  // Feed one proof QR frame; returns true once scanning can stop
+  const handleProofQRFrame = (data: string): boolean => {
+    try {
+      const result = proofAssemblerRef.current.add(data);
+      if (!result.complete) {
+        setProofScanProgress({ received: result.received, total: result.total });
+        return false;
+      }
+      console.log(' Proof QR code read');
+      setProofScanProgress(null);
+      verifyScannedProof(result.bundle);
+    } catch (error: unknown) {
+      console.error('Error reading proof QR:', error);
+      proofAssemblerRef.current.reset();
+      setProofScanProgress(null);
+      const message = error instanceof Error ? error.message : String(error);
+      setError(`Failed to read proof QR code: ${message}`);
+    }
+    return true;
+  };
+
   const handleChallengeQRData = async (data: string) => {
+    if (isProofQrFrame(data)) {
+      setError(null);
+      if (!handleProofQRFrame(data)) {
+        setError('This is one frame of an animated proof QR code. Scan it with the camera to read every frame.');
+      }
+      return;
+    }
+
     try {
       setError(null);
       console.log('Processing challenge QR code...');
@@ -230,61 +274,21 @@ export function ChallengeScanner() {
     setError(null);
 
     try {
-      // In a real implementation, this would:
-      // 1. Load the user's stored Aadhaar data
-      // 2. Generate a ZK proof based on the challenge requirements
-      // 3. Submit the proof to the challenge callback URL or backend
-
-      // For now, simulate proof generation
-      const proofResponse = {
-        challengeId: challenge.challengeId,
-        proof: {
-          pi_a: ['0x...'],
-          pi_b: [['0x...']],
-          pi_c: ['0x...'],
-          publicSignals: [wallet.publicKey.toString()]
-        },
-        identityCommitment: wallet.publicKey.toString(),
-        timestamp: Date.now()
-      };
-
       console.log('📋 Challenge data from QR:', challenge);
-      console.log(' Challenge ID from QR:', challenge.challengeId);
       console.log('🔗 Callback URL:', challenge.callbackUrl);
 
-      // Submit to callback URL or backend
-      if (challenge.callbackUrl) {
-        console.log('📤 Submitting proof to:', challenge.callbackUrl);
-        console.log(' Proof response:', proofResponse);
-
-        // Extract challenge ID from callback URL for verification
-        const urlMatch = challenge.callbackUrl.match(/challenges\/([^/]+)\//);
-        const expectedChallengeId = urlMatch ? urlMatch[1] : null;
-        console.log('🎯 Expected challenge ID from URL:', expectedChallengeId);
-
-        if (expectedChallengeId && proofResponse.challengeId !== expectedChallengeId) {
-          console.warn('⚠️ Challenge ID mismatch detected!');
-          console.warn('  From QR:', proofResponse.challengeId);
-          console.warn('  From URL:', expectedChallengeId);
-          // Use the challenge ID from the URL
-          proofResponse.challengeId = expectedChallengeId;
-          console.log(' Corrected challenge ID to match URL');
-        }
-
-        const response = await fetch(challenge.callbackUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(proofResponse)
-        });
+      const walletAddress = wallet.publicKey.toString();
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-          console.error(' Backend error:', errorData);
-          throw new Error(errorData.error || 'Failed to submit proof to app');
-        }
+      // Reuse a matching stored proof or generate one bound to this challenge
+      const proofResponse = await buildChallengeResponse(challenge, {
+        walletPublicKey: walletAddress,
+        identity: getIdentityInputs(walletAddress),
+        fetchRegisteredCommitments,
+      });
+      console.log(' Proof response:', proofResponse);
 
-        console.log(' Proof accepted by backend');
-      }
+      // Submit to callback URL
+      await submitChallengeResponse(challenge, proofResponse);
 
       setSuccess(true);
       console.log(' Proof submitted successfully!');
@@ -308,7 +312,7 @@ export function ChallengeScanner() {
     }
   };
 
-  const getProofTypeDescription = (type: string, params: any) => {
+  const getProofTypeDescription = (type: string, params: ChallengeParams) => {
     switch (type) {
       case 'age':
         return `Age verification (${params.threshold}+ years old)`;
@@ -350,6 +354,24 @@ export function ChallengeScanner() {
     );
   }
 
+  if (scannedProof) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-6">
+          <ProofVerificationResult bundle={scannedProof.bundle} verification={scannedProof.verification} />
+        </div>
+
+        <button
+          onClick={() => setScannedProof(null)}
+          disabled={!scannedProof.verification}
+          className="w-full px-6 py-4 bg-tertiary hover:bg-tertiary/70 disabled:opacity-50 text-text-primary rounded-lg font-semibold transition-colors font-serif"
+        >
+          Done
+        </button>
+      </div>
+    );
+  }
+
   if (challenge) {
     const isExpired = Date.now() > challenge.expiresAt;
     const timeRemaining = Math.max(0, Math.floor((challenge.expiresAt - Date.now()) / 1000));
@@ -531,7 +553,9 @@ export function ChallengeScanner() {
 
             <div className="absolute bottom-4 left-0 right-0 text-center">
               <p className="bg-black/70 text-white px-4 py-2 rounded-lg inline-block">
-                Position the QR code within the frame
+                {proofScanProgress
+                  ? `Reading proof: ${proofScanProgress.received} of ${proofScanProgress.total} frames`
+                  : 'Position the QR code within the frame'}
               </p>
             </div>
           </div>
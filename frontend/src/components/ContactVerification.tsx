@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { hasContactHash, verifyAadhaarContact } from '../lib/aadhaarContact';
+import type { AadhaarContactKind } from '../lib/aadhaarContact';
+import type { AadhaarData } from '../lib/aadhaarParser';
+
+interface ContactVerificationProps {
+  aadhaar: Pick<AadhaarData, 'aadhaarLast4Digits' | 'emailHash' | 'mobileHash'>;
+  onVerified: (kind: AadhaarContactKind) => void;
+}
+
+const LABELS: Record<AadhaarContactKind, string> = {
+  mobile: 'Mobile number',
+  email: 'Email',
+};
+
+/**
+ * Optional check of the holder's registered mobile or email against their Secure QR hashes
+ */
+export function ContactVerification({ aadhaar, onVerified }: ContactVerificationProps) {
+  const kinds = (['mobile', 'email'] as const).filter((kind) => hasContactHash(aadhaar, kind));
+  const [kind, setKind] = useState<AadhaarContactKind>(kinds[0] ?? 'mobile');
+  const [value, setValue] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [verified, setVerified] = useState<AadhaarContactKind[]>([]);
+  const [mismatch, setMismatch] = useState(false);
+
+  if (kinds.length === 0) return null;
+
+  const check = async () => {
+    setChecking(true);
+    setMismatch(false);
+    try {
+      if (await verifyAadhaarContact(aadhaar, kind, value)) {
+        setVerified((current) => [...current, kind]);
+        setValue('');
+        onVerified(kind);
+        const remaining = kinds.find((k) => k !== kind && !verified.includes(k));
+        if (remaining) setKind(remaining);
+      } else {
+        setMismatch(true);
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const done = kinds.every((k) => verified.includes(k));
+
+  return (
+    <div className="mt-8 p-4 max-w-sm mx-auto text-left bg-secondary/40 border border-border-custom rounded-lg space-y-3">
+      <div>
+        <p className="text-text-primary text-sm font-futuristic">Optional: confirm your registered contact</p>
+        <p className="text-text-muted text-xs font-futuristic">
+          Checked on this device against the hash in your Aadhaar QR. Nothing is sent anywhere.
+        </p>
+      </div>
+
+      {verified.map((k) => (
+        <div key={k} className="flex items-center gap-3 text-text-secondary text-sm font-futuristic">
+          <span className="text-green-400">✓</span>
+          <span>{LABELS[k]} matches your Aadhaar</span>
+        </div>
+      ))}
+
+      {!done && (
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            check();
+          }}
+        >
+          {kinds.length > 1 && (
+            <div className="flex gap-2">
+              {kinds.filter((k) => !verified.includes(k)).map((k) => (
+                <button
+                  key={k}
+                  type="button"
+                  onClick={() => { setKind(k); setMismatch(false); }}
+                  className={`px-3 py-1 text-xs font-futuristic rounded ${
+                    kind === k ? 'bg-vintage-grape-600 text-text-primary' : 'bg-tertiary text-text-secondary'
+                  }`}
+                >
+                  {LABELS[k]}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <input
+              type={kind === 'email' ? 'email' : 'tel'}
+              value={value}
+              onChange={(e) => { setValue(e.target.value); setMismatch(false); }}
+              placeholder={kind === 'email' ? 'you@example.com' : '10-digit mobile number'}
+              className="flex-1 px-3 py-2 bg-secondary border border-border-custom rounded text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:border-vintage-grape-500"
+            />
+            <button
+              type="submit"
+              disabled={checking || !value.trim()}
+              className="px-4 py-2 bg-vintage-grape-600 hover:bg-vintage-grape-500 disabled:opacity-50 text-text-primary text-sm font-futuristic rounded"
+            >
+              {checking ? 'Checking...' : 'Check'}
+            </button>
+          </div>
+          {mismatch && (
+            <p className="text-red-400 text-xs font-futuristic">
+              That {LABELS[kind].toLowerCase()} does not match the one registered with this Aadhaar.
+            </p>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { IdentityVaultControls } from './IdentityVaultControls';
 
 export function Header() {
   return (
@@ -14,7 +15,10 @@ export function Header() {
             <h1 className="text-xl font-bold text-text-primary font-serif">Solstice Protocol</h1>
           </div>
 
-          <WalletMultiButton className="!bg-vintage-grape-600 hover:!bg-vintage-grape-700 !font-futuristic !rounded-lg !transition-all !duration-300 hover:!shadow-lg hover:!shadow-vintage-grape-500/20 !text-sm !px-4 !py-2" />
+          <div className="flex items-center gap-3">
+            <IdentityVaultControls />
+            <WalletMultiButton className="!bg-vintage-grape-600 hover:!bg-vintage-grape-700 !font-futuristic !rounded-lg !transition-all !duration-300 hover:!shadow-lg hover:!shadow-vintage-grape-500/20 !text-sm !px-4 !py-2" />
+          </div>
         </div>
       </div>
     </header>
@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { Lock, Unlock, Loader } from 'lucide-react';
+import { getIdentityInputs, subscribeIdentitySession } from '../lib/identitySession';
+import { hasIdentityVault, lockIdentityVault, unlockIdentityVault } from '../lib/identityVault';
+
+/**
+ * Unlock / lock button for the encrypted identity vault
+ * Hidden until the connected wallet has a vault on this device
+ */
+export function IdentityVaultControls() {
+  const wallet = useWallet();
+  const walletAddress = wallet.publicKey?.toString();
+  const [vaultExists, setVaultExists] = useState(false);
+  const [unlocked, setUnlocked] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!walletAddress) {
+      setVaultExists(false);
+      setUnlocked(false);
+      return;
+    }
+
+    const refresh = () => {
+      setUnlocked(getIdentityInputs(walletAddress) !== null);
+      hasIdentityVault(walletAddress).then(setVaultExists);
+    };
+    refresh();
+    return subscribeIdentitySession(refresh);
+  }, [walletAddress]);
+
+  if (!walletAddress || !vaultExists) return null;
+
+  const handleUnlock = async () => {
+    if (!wallet.signMessage) {
+      setError('This wallet cannot sign messages');
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      await unlockIdentityVault(walletAddress, wallet.signMessage);
+    } catch (err) {
+      console.error('Failed to unlock identity vault:', err);
+      setError(err instanceof Error ? err.message : 'Failed to unlock vault');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-red-400 font-futuristic">{error}</span>}
+      {unlocked ? (
+        <button
+          onClick={lockIdentityVault}
+          className="flex items-center gap-2 px-3 py-2 bg-tertiary hover:bg-tertiary/70 text-text-primary rounded-lg transition-all duration-300 text-sm font-medium font-futuristic"
+          title="Forget your identity data for this session"
+        >
+          <Unlock className="w-4 h-4" />
+          Lock Vault
+        </button>
+      ) : (
+        <button
+          onClick={handleUnlock}
+          disabled={busy}
+          className="flex items-center gap-2 px-3 py-2 bg-tertiary hover:bg-tertiary/70 text-text-primary rounded-lg transition-all duration-300 text-sm font-medium font-futuristic disabled:opacity-50"
+          title="Sign with your wallet to decrypt your identity data for this session"
+        >
+          {busy ? <Loader className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+          Unlock Vault
+        </button>
+      )}
+    </div>
+  );
+}
@@ -5,25 +5,51 @@ import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import jsQR from 'jsqr';
 import { useSolstice } from '../contexts/SolsticeContext';
-import { generateAllProofs, storeProofs } from '../lib/proofGenerator';
-import { parseAadhaarQR } from '../lib/aadhaarParser';
-import { generateIdentityCommitment } from '../lib/crypto';
+import { generateAllProofs, storeProofs, STANDARD_AGE_THRESHOLDS } from '../lib/proofGenerator';
+import { isProofCancelled } from '../lib/proverPool';
+import type { ProofStage } from '../lib/proverPool';
+import { ArtifactIntegrityError, describeIntegrityError } from '../lib/artifactIntegrity';
+import { aadhaarFieldHash, aadhaarIdentifier, parseAnyAadhaarQR, requireUidaiSigned } from '../lib/aadhaarParser';
+import type { AadhaarData } from '../lib/aadhaarParser';
+import { AadhaarSignatureError } from '../lib/aadhaarSignature';
+import { decodeAadhaarPhoto } from '../lib/aadhaarPhoto';
+import { setIdentityInputs } from '../lib/identitySession';
+import { sealIdentityVault } from '../lib/identityVault';
+import { deriveIdentitySecret } from '../lib/identitySecret';
+import { ContactVerification } from './ContactVerification';
 import {
   isOnboardingComplete,
   recordOnboardingCompletion,
+  recordContactVerification,
   linkAadhaarToWallet,
   verifyAadhaarWalletLink
 } from '../lib/onboarding';
 
 type OnboardingStep = 'wallet' | 'scan-method' | 'camera' | 'upload' | 'processing' | 'complete';
 
+type ProofProgress = Partial<Record<'age' | 'nationality' | 'uniqueness', ProofStage>>;
+
+const STAGE_LABELS: Record<ProofStage, string> = {
+  queued: 'Waiting',
+  witness: 'Computing witness',
+  msm: 'Proving',
+  done: 'Done',
+};
+
 export function OnboardingFlow() {
   const wallet = useWallet();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const { fetchIdentity, registerIdentity } = useSolstice();
+  const { fetchIdentity, registerIdentity, fetchRegisteredCommitments } = useSolstice();
   const [currentStep, setCurrentStep] = useState<OnboardingStep>('wallet');
   const [error, setError] = useState<string | null>(null);
+  const [proofProgress, setProofProgress] = useState<ProofProgress>({});
+  // Shown while processing so the holder can confirm the QR is theirs; never leaves the device
+  const [holder, setHolder] = useState<{ name: string; photoUrl: string | null; photoUnavailable?: boolean } | null>(null);
+  // Secure QR contact hashes, kept until onboarding completes for the optional contact check
+  const [contactHashes, setContactHashes] =
+    useState<Pick<AadhaarData, 'aadhaarLast4Digits' | 'emailHash' | 'mobileHash'> | null>(null);
+  const proofAbortRef = useRef<AbortController | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -110,7 +136,7 @@ export function OnboardingFlow() {
       console.log('📱 Processing Aadhaar QR code...');
 
       // Extract Aadhaar hash early for verification
-      const aadhaarHash = qrData.substring(0, 12);
+      const aadhaarHash = await aadhaarIdentifier(qrData);
 
       // Check if this Aadhaar is already linked to another wallet
       const linkCheck = verifyAadhaarWalletLink(aadhaarHash, wallet.publicKey.toString());
@@ -128,26 +154,51 @@ export function OnboardingFlow() {
         return;
       }
 
-      const parsedData = await parseAadhaarQR(qrData);
+      const parsedData = await parseAnyAadhaarQR(qrData);
 
       if (!parsedData) {
         throw new Error('Invalid Aadhaar QR code');
       }
 
+      requireUidaiSigned(parsedData);
       console.log('✅ Aadhaar data parsed');
 
+      setHolder({ name: parsedData.name, photoUrl: null });
+      if (parsedData.photo) {
+        decodeAadhaarPhoto(parsedData.photo).then((photoUrl) => {
+          setHolder((current) => current && { ...current, photoUrl, photoUnavailable: !photoUrl });
+        });
+      }
+
       const nationality = 'IN';
-      const nonce = qrData.substring(qrData.length - 32);
+      if (!wallet.signMessage) {
+        throw new Error('Your wallet must support message signing to derive your identity secret');
+      }
+      const identitySecret = await deriveIdentitySecret(wallet.publicKey.toString(), wallet.signMessage);
 
       const proofInputs = {
         dateOfBirth: parsedData.dateOfBirth.split('/').reverse().join(''),
         nationality,
-        aadhaarNumber: aadhaarHash,
-        nonce
+        aadhaarHash: await aadhaarFieldHash(qrData),
+        identitySecret: identitySecret.toString()
       };
 
+      console.log('🌳 Fetching registered commitments...');
+      const registeredCommitments = await fetchRegisteredCommitments();
+
       console.log('⚙️ Generating ZK proofs...');
-      const proofResults = await generateAllProofs(proofInputs);
+      const abortController = new AbortController();
+      proofAbortRef.current = abortController;
+      setProofProgress({});
+      const proofResults = await generateAllProofs(proofInputs, {
+        ageThresholds: STANDARD_AGE_THRESHOLDS,
+        registeredCommitments
+      }, {
+        signal: abortController.signal,
+        onProgress: (attributeType, stage) =>
+          setProofProgress(prev => ({ ...prev, [attributeType]: stage })),
+      });
+      proofAbortRef.current = null;
 
       if (proofResults.errors.length > 0) {
         throw new Error(`Proof generation errors: ${proofResults.errors.join(', ')}`);
@@ -155,38 +206,72 @@ export function OnboardingFlow() {
 
       const proofsToStore = {
         age: proofResults.ageProof || undefined,
+        ageByThreshold: proofResults.ageProofs,
         nationality: proofResults.nationalityProof || undefined,
         uniqueness: proofResults.uniquenessProof || undefined
       };
 
       console.log('✅ All proofs generated');
 
+      // Keep the proving inputs for this session so challenges can get fresh proofs
+      setIdentityInputs(wallet.publicKey.toString(), proofInputs);
+
+      // And seal them into the encrypted vault so later sessions can re-prove
+      if (wallet.signMessage) {
+        await sealIdentityVault(wallet.publicKey.toString(), wallet.signMessage, proofInputs).catch((vaultError) => {
+          console.warn('⚠️ Identity vault not saved:', vaultError);
+        });
+      }
+
       await storeProofs(wallet.publicKey.toString(), proofsToStore);
       console.log('💾 Proofs stored locally');
 
-      console.log('🔐 Generating commitment...');
-      const commitment = await generateIdentityCommitment({
-        name: parsedData.name,
-        dateOfBirth: parsedData.dateOfBirth,
-        gender: parsedData.gender,
-        address: parsedData.address
-      });
+      // Register the same Poseidon commitment the proofs were generated against
+      const commitment = proofResults.commitment;
 
       console.log('⛓️ Registering identity on-chain...');
-      const merkleRoot = 'mock-merkle-root';
+      const merkleRoot = proofResults.merkleRoot;
       const success = await registerIdentity(commitment, merkleRoot);
 
       if (success) {
         console.log('✅ Registration complete!');
 
-        recordOnboardingCompletion(wallet.publicKey.toString());
+        recordOnboardingCompletion(wallet.publicKey.toString(), parsedData.trustLevel, commitment);
         linkAadhaarToWallet(aadhaarHash, wallet.publicKey.toString());
 
+        setHolder(null);
+        if (parsedData.emailHash || parsedData.mobileHash) {
+          setContactHashes({
+            aadhaarLast4Digits: parsedData.aadhaarLast4Digits,
+            emailHash: parsedData.emailHash,
+            mobileHash: parsedData.mobileHash,
+          });
+        }
         setCurrentStep('complete');
       } else {
         throw new Error('Failed to register identity');
       }
     } catch (err: unknown) {
+      proofAbortRef.current = null;
+      setHolder(null);
+      if (isProofCancelled(err)) {
+        console.log('Proof generation cancelled');
+        setError('Proof generation was cancelled.');
+        setCurrentStep('scan-method');
+        return;
+      }
+      if (err instanceof ArtifactIntegrityError) {
+        console.error('Circuit artifact integrity check failed:', err);
+        setError(describeIntegrityError(err));
+        setCurrentStep('scan-method');
+        return;
+      }
+      if (err instanceof AadhaarSignatureError) {
+        console.error('Aadhaar signature check failed:', err);
+        setError(`This Aadhaar QR code could not be verified as issued by UIDAI. ${err.message}`);
+        setCurrentStep('scan-method');
+        return;
+      }
       const error = err as Error;
       console.error('Error during onboarding:', error);
       setError(error.message || 'Failed to process QR code');
@@ -445,6 +530,53 @@ export function OnboardingFlow() {
             <p className="text-text-secondary text-sm font-futuristic">
               Creating zero-knowledge proofs...
             </p>
+
+            {holder && (
+              <div className="flex items-center gap-4 max-w-sm mx-auto p-4 bg-vintage-grape-900/30 border border-vintage-grape-600/30 rounded-lg text-left">
+                {holder.photoUrl ? (
+                  <img src={holder.photoUrl} alt="Photo from your Aadhaar" className="w-16 h-20 object-cover rounded" />
+                ) : (
+                  <div className="w-16 h-20 flex items-center justify-center rounded bg-vintage-grape-800/50 text-text-primary text-xl font-serif">
+                    {holder.name.charAt(0)}
+                  </div>
+                )}
+                <div>
+                  <p className="text-text-muted text-xs font-futuristic">This is you</p>
+                  <p className="text-text-primary font-serif">{holder.name}</p>
+                  {holder.photoUnavailable && (
+                    <p className="text-text-muted text-xs font-futuristic mt-1">Your Aadhaar photo could not be decoded in this browser.</p>
+                  )}
+                  <p className="text-text-muted text-xs font-futuristic mt-1">Not you? Cancel and scan your own QR code.</p>
+                </div>
+              </div>
+            )}
+
+            {Object.keys(proofProgress).length > 0 && (
+              <div className="space-y-2 text-left max-w-sm mx-auto">
+                {(Object.entries(proofProgress) as [keyof ProofProgress, ProofStage][]).map(([attributeType, stage]) => (
+                  <div
+                    key={attributeType}
+                    className="flex items-center justify-between text-text-secondary text-sm font-futuristic"
+                  >
+                    <span className="capitalize">{attributeType}</span>
+                    <span className={stage === 'done' ? 'text-green-400' : 'text-text-muted'}>
+                      {STAGE_LABELS[stage]}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {Object.keys(proofProgress).length > 0 && (
+              <motion.button
+                onClick={() => proofAbortRef.current?.abort()}
+                className="px-8 py-2 bg-vintage-grape-800/50 border border-vintage-grape-600/50 text-text-primary hover:bg-vintage-grape-700/50 transition-all duration-300 rounded-lg font-futuristic text-sm"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                Cancel
+              </motion.button>
+            )}
           </motion.div>
         )}
 
@@ -501,6 +633,13 @@ export function OnboardingFlow() {
               </motion.div>
             </div>
 
+            {contactHashes && wallet.publicKey && (
+              <ContactVerification
+                aadhaar={contactHashes}
+                onVerified={(kind) => recordContactVerification(wallet.publicKey!.toString(), kind)}
+              />
+            )}
+
             <motion.button
               onClick={() => navigate('/status')}
               className="mt-8 px-10 py-3 bg-vintage-grape-600 text-text-primary font-futuristic hover:bg-vintage-grape-500 transition-all duration-300 rounded-lg hover:shadow-lg hover:shadow-vintage-grape-500/20"
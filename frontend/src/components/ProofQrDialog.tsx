@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+
+interface ProofQrDialogProps {
+  title: string;
+  frames: string[]; // QR images as data URLs, shown in a loop when there is more than one
+  onClose: () => void;
+}
+
+const FRAME_INTERVAL_MS = 400;
+
+/**
+ * Full-screen QR display for a shared proof
+ */
+export function ProofQrDialog({ title, frames, onClose }: ProofQrDialogProps) {
+  const [frameIndex, setFrameIndex] = useState(0);
+
+  useEffect(() => {
+    if (frames.length <= 1) return;
+    const timer = setInterval(() => setFrameIndex(i => (i + 1) % frames.length), FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [frames.length]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" onClick={onClose}>
+      <div
+        className="bg-secondary border border-border-custom rounded-xl p-6 max-w-sm w-full"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-text-primary font-serif">{title}</h3>
+          <button onClick={onClose} className="text-text-muted hover:text-text-primary" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <img src={frames[frameIndex]} alt={`Proof QR code ${frameIndex + 1} of ${frames.length}`} className="w-full bg-white rounded-lg" />
+
+        <p className="text-xs text-text-muted mt-3 text-center font-futuristic">
+          {frames.length > 1
+            ? `Frame ${frameIndex + 1} of ${frames.length}. Keep the camera on the code until every frame is read.`
+            : 'Scan with any Solstice-compatible verifier.'}
+        </p>
+      </div>
+    </div>
+  );
+}
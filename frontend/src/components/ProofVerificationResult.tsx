@@ -0,0 +1,118 @@
+import { CheckCircle2, XCircle, Loader, AlertCircle } from 'lucide-react';
+import type { ProofBundle } from '../lib/proofBundle';
+import type { SharedProofVerification } from '../lib/proofVerifier';
+
+interface ProofVerificationResultProps {
+  bundle: ProofBundle;
+  verification: SharedProofVerification | null; // null while verification is running
+}
+
+const IDENTITY_LABELS = {
+  registered: 'Registered identity found on chain',
+  'not-registered': 'No identity account on chain for this wallet',
+  mismatch: 'The registered identity differs from the one the proof was made from',
+  unavailable: 'Could not reach the network to check',
+  skipped: 'Not checked',
+};
+
+const IDENTITY_COLORS: Partial<Record<keyof typeof IDENTITY_LABELS, string>> = {
+  registered: 'text-green-400',
+  mismatch: 'text-red-400',
+};
+
+const STATUS_TITLES = {
+  verifying: 'Verifying Proof...',
+  valid: 'Proof Verified',
+  invalid: 'Proof Rejected',
+  unsupported: 'Cannot Verify In This Browser',
+};
+
+/**
+ * Outcome of verifying a shared proof bundle, with its decoded contents
+ */
+export function ProofVerificationResult({ bundle, verification }: ProofVerificationResultProps) {
+  const { payload } = bundle;
+  const status = !verification ? 'verifying'
+    : verification.valid ? 'valid'
+    : verification.unsupported ? 'unsupported'
+    : 'invalid';
+
+  return (
+    <div className="bg-secondary/50 border border-vintage-grape-500/30 rounded-xl p-6">
+      <div className="flex items-center gap-3 mb-4">
+        {status === 'verifying' && <Loader className="w-6 h-6 animate-spin text-text-muted" />}
+        {status === 'valid' && <CheckCircle2 className="w-6 h-6 text-green-500" />}
+        {status === 'invalid' && <XCircle className="w-6 h-6 text-red-500" />}
+        {status === 'unsupported' && <AlertCircle className="w-6 h-6 text-yellow-500" />}
+        <h3 className="text-2xl font-bold text-vintage-grape-400 font-serif">
+          {STATUS_TITLES[status]}
+        </h3>
+      </div>
+
+      {verification?.error && (
+        <div className={`mb-4 p-3 rounded-lg text-sm ${status === 'unsupported'
+          ? 'bg-yellow-900/30 border border-yellow-500/50 text-yellow-300'
+          : 'bg-red-900/30 border border-red-500/50 text-red-300'}`}>
+          {verification.error}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <label className="text-sm text-text-muted">Circuit</label>
+          <p className="text-lg text-text-primary capitalize">
+            {payload.circuit.id} <span className="text-sm text-text-muted">v{payload.circuit.version}</span>
+          </p>
+        </div>
+
+        <div>
+          <label className="text-sm text-text-muted">Public Inputs</label>
+          <div className="mt-1 space-y-1">
+            {Object.entries(payload.publicInputs).map(([name, value]) => (
+              <div key={name} className="flex justify-between gap-4 text-sm">
+                <span className="text-text-secondary">{name}</span>
+                <span className="font-mono text-text-primary truncate">{value}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="text-sm text-text-muted">Binding</label>
+          {payload.binding ? (
+            <div className="mt-1 space-y-1 text-sm">
+              <p className="text-text-secondary">App: <span className="text-text-primary">{payload.binding.context.relyingPartyId}</span></p>
+              <p className="text-text-secondary">Challenge: <span className="font-mono text-text-primary">{payload.binding.context.challengeId}</span></p>
+            </div>
+          ) : (
+            <p className="text-sm text-text-secondary">Not bound to a request</p>
+          )}
+        </div>
+
+        <div>
+          <label className="text-sm text-text-muted">Holder</label>
+          <p className="text-sm font-mono text-text-secondary break-all">{payload.holder}</p>
+          {verification && verification.identity !== 'skipped' && (
+            <p className={`text-sm mt-1 flex items-center gap-1 ${IDENTITY_COLORS[verification.identity] ?? 'text-yellow-400'}`}>
+              {verification.identity === 'registered' ? <CheckCircle2 className="w-4 h-4" />
+                : verification.identity === 'mismatch' ? <XCircle className="w-4 h-4" />
+                : <AlertCircle className="w-4 h-4" />}
+              {IDENTITY_LABELS[verification.identity]}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="text-sm text-text-muted">Issued</label>
+            <p className="text-sm text-text-secondary">{new Date(payload.issuedAt).toLocaleString()}</p>
+          </div>
+          <div>
+            <label className="text-sm text-text-muted">Expires</label>
+            <p className="text-sm text-text-secondary">{new Date(payload.expiresAt).toLocaleString()}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
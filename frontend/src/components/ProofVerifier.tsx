@@ -0,0 +1,299 @@
+import { useState, useRef, useEffect } from 'react';
+import jsQR from 'jsqr';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { Camera, Upload, ShieldCheck, X } from 'lucide-react';
+import { decodeProofBundle } from '../lib/proofBundle';
+import type { ProofBundle } from '../lib/proofBundle';
+import { createProofQrAssembler, isProofQrFrame } from '../lib/proofQr';
+import { verifySharedProof } from '../lib/proofVerifier';
+import type { SharedProofVerification } from '../lib/proofVerifier';
+import { ProofVerificationResult } from './ProofVerificationResult';
+
+/**
+ * Verify a proof someone shared: pasted bundle text, a bundle file or a proof QR code
+ * Needs no wallet; the holder's identity account is looked up through the RPC connection
+ */
+export function ProofVerifier() {
+  const { connection } = useConnection();
+  const [bundleText, setBundleText] = useState('');
+  const [checkIdentity, setCheckIdentity] = useState(true);
+  const [scanning, setScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState<{ received: number; total: number } | null>(null);
+  const [result, setResult] = useState<{ bundle: ProofBundle; verification: SharedProofVerification | null } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+  const assemblerRef = useRef(createProofQrAssembler());
+
+  const verifyBundle = async (bundle: ProofBundle) => {
+    setError(null);
+    setResult({ bundle, verification: null });
+    const verification = await verifySharedProof(bundle, { connection: checkIdentity ? connection : undefined });
+    setResult({ bundle, verification });
+  };
+
+  const verifyText = async (text: string) => {
+    try {
+      await verifyBundle(decodeProofBundle(text));
+    } catch (error) {
+      setResult(null);
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Feed one scanned QR code; returns true once scanning can stop
+  const handleQRData = (data: string): boolean => {
+    if (!isProofQrFrame(data)) {
+      // A compact bundle fits in a plain QR code too
+      verifyText(data);
+      return true;
+    }
+
+    try {
+      const scan = assemblerRef.current.add(data);
+      if (!scan.complete) {
+        setScanProgress({ received: scan.received, total: scan.total });
+        return false;
+      }
+      setScanProgress(null);
+      verifyBundle(scan.bundle);
+    } catch (error) {
+      assemblerRef.current.reset();
+      setScanProgress(null);
+      setError(error instanceof Error ? error.message : String(error));
+    }
+    return true;
+  };
+
+  const readQRFromImage = (dataUrl: string) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      ctx?.drawImage(img, 0, 0);
+
+      const imageData = ctx?.getImageData(0, 0, canvas.width, canvas.height);
+      const code = imageData && jsQR(imageData.data, imageData.width, imageData.height);
+      if (!code) {
+        setError('No QR code found in image');
+      } else if (!handleQRData(code.data)) {
+        setError('This is one frame of an animated proof QR code. Scan it with the camera to read every frame.');
+      }
+    };
+    img.src = dataUrl;
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    if (file.type.startsWith('image/')) {
+      reader.onload = (event) => readQRFromImage(event.target?.result as string);
+      reader.readAsDataURL(file);
+    } else {
+      reader.onload = (event) => {
+        const text = event.target?.result as string;
+        setBundleText(text);
+        verifyText(text);
+      };
+      reader.readAsText(file);
+    }
+  };
+
+  const stopCamera = () => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+    assemblerRef.current.reset();
+    setScanProgress(null);
+    setScanning(false);
+  };
+
+  const scanQRFromVideo = () => {
+    if (!videoRef.current || !canvasRef.current) return;
+
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+
+    if (video.readyState === video.HAVE_ENOUGH_DATA) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const imageData = ctx?.getImageData(0, 0, canvas.width, canvas.height);
+      const code = imageData && jsQR(imageData.data, imageData.width, imageData.height);
+      if (code && handleQRData(code.data)) {
+        stopCamera();
+        return;
+      }
+    }
+
+    animationFrameRef.current = requestAnimationFrame(scanQRFromVideo);
+  };
+
+  const startCamera = async () => {
+    try {
+      setError(null);
+      setScanning(true);
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' }
+      });
+
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        streamRef.current = stream;
+
+        videoRef.current.onloadedmetadata = () => {
+          videoRef.current?.play();
+          scanQRFromVideo();
+        };
+      }
+    } catch (error) {
+      console.error('Camera error:', error);
+      setError('Failed to access camera. Paste the proof or upload it instead.');
+      setScanning(false);
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      stopCamera();
+    };
+  }, []);
+
+  if (result) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-6">
+          <ProofVerificationResult bundle={result.bundle} verification={result.verification} />
+        </div>
+
+        <button
+          onClick={() => {
+            setResult(null);
+            setBundleText('');
+          }}
+          disabled={!result.verification}
+          className="w-full px-6 py-4 bg-tertiary hover:bg-tertiary/70 disabled:opacity-50 text-text-primary rounded-lg font-semibold transition-colors font-serif"
+        >
+          Verify Another Proof
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold mb-2 text-text-primary font-serif">Verify a Proof</h2>
+        <p className="text-text-secondary">
+          Check a Solstice proof someone shared with you. Nothing about them is revealed beyond what the proof states.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-900/30 border border-red-500/50 rounded-lg text-red-300">
+          {error}
+        </div>
+      )}
+
+      {scanning ? (
+        <div className="relative">
+          <video ref={videoRef} className="w-full rounded-lg" playsInline muted />
+          <canvas ref={canvasRef} className="hidden" />
+
+          <button
+            onClick={stopCamera}
+            className="absolute top-4 right-4 p-3 bg-red-600 hover:bg-red-700 rounded-full text-white transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+
+          <div className="absolute bottom-4 left-0 right-0 text-center">
+            <p className="bg-black/70 text-white px-4 py-2 rounded-lg inline-block">
+              {scanProgress
+                ? `Reading proof: ${scanProgress.received} of ${scanProgress.total} frames`
+                : 'Position the proof QR code within the frame'}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <textarea
+            value={bundleText}
+            onChange={(e) => setBundleText(e.target.value)}
+            placeholder="Paste a proof bundle (solstice-bundle:1:... or JSON)"
+            rows={6}
+            className="w-full p-4 bg-secondary border border-border-custom rounded-lg text-sm font-mono text-text-primary placeholder:text-text-muted focus:outline-none focus:border-vintage-grape-500"
+          />
+
+          <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={checkIdentity}
+              onChange={(e) => setCheckIdentity(e.target.checked)}
+              className="accent-vintage-grape-500"
+            />
+            Check the proof against the holder's registered identity on chain
+          </label>
+
+          <button
+            onClick={() => verifyText(bundleText)}
+            disabled={!bundleText.trim()}
+            className="w-full px-6 py-4 bg-vintage-grape-600 hover:bg-vintage-grape-700 disabled:opacity-50 text-white rounded-lg font-semibold flex items-center justify-center gap-3 transition-colors font-serif"
+          >
+            <ShieldCheck className="w-6 h-6" />
+            Verify Proof
+          </button>
+
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              onClick={startCamera}
+              className="px-6 py-4 bg-tertiary hover:bg-tertiary/70 text-text-primary rounded-lg font-semibold flex items-center justify-center gap-3 transition-colors font-serif"
+            >
+              <Camera className="w-5 h-5" />
+              Scan QR
+            </button>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*,.json,.txt"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-6 py-4 bg-tertiary hover:bg-tertiary/70 text-text-primary rounded-lg font-semibold flex items-center justify-center gap-3 transition-colors font-serif"
+            >
+              <Upload className="w-5 h-5" />
+              Upload File
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8 p-4 bg-blue-900/20 border border-blue-500/30 rounded-lg">
+        <p className="text-sm text-blue-300">
+          <strong>What is checked:</strong> the holder's wallet signature over the bundle, its expiry, that it was
+          made for the circuit version this app verifies with, any request binding, and the zero-knowledge proof itself.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,31 +1,115 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Shield, CheckCircle, XCircle, Share2, RefreshCw } from 'lucide-react';
-
-interface ProofData {
-  type: 'age' | 'nationality' | 'uniqueness';
-  status: 'valid' | 'expired' | 'pending';
-  generatedAt: number;
-  expiresAt?: number;
-  proof: any;
-  publicSignals: any[];
+import { useWallet } from '@solana/wallet-adapter-react';
+import { Shield, CheckCircle, XCircle, Share2, RefreshCw, Clock, QrCode } from 'lucide-react';
+import { useSolstice } from '../contexts/SolsticeContext';
+import { generateTargetProof, regenerateProof } from '../lib/proofGenerator';
+import type { ProofStage } from '../lib/proverPool';
+import { getIdentityInputs } from '../lib/identitySession';
+import type { IdentityProofInputs } from '../lib/identitySession';
+import { hasIdentityVault, unlockIdentityVault } from '../lib/identityVault';
+import { listProofs, proofParamValue } from '../lib/proofStore';
+import { bundleBindingContext, createProofBundle, encodeProofBundle } from '../lib/proofBundle';
+import { encodeProofQrFrames, renderProofQrFrames } from '../lib/proofQr';
+import { ProofQrDialog } from './ProofQrDialog';
+import type { StoredProof } from '../lib/proofStore';
+import type { CircuitId } from '../lib/circuitRegistry';
+import { getExpiryPolicy, proofExpiresAt, proofExpiryStatus, setExpiryPolicy, startExpiryScheduler } from '../lib/proofExpiry';
+import type { ProofExpiryStatus } from '../lib/proofExpiry';
+
+interface ProofCard extends StoredProof {
+  status: ProofExpiryStatus;
+  threshold?: number; // Age proofs only
 }
 
+const CARD_ORDER: CircuitId[] = ['age', 'nationality', 'uniqueness'];
+
+const cardThreshold = (record: StoredProof) =>
+  record.type === 'age' ? Number(proofParamValue(record)) : undefined;
+
+// One card per stored record, so each age threshold is listed separately
+const toProofCards = (records: StoredProof[]): ProofCard[] =>
+  records
+    .map((record): ProofCard => ({
+      ...record,
+      status: proofExpiryStatus(record),
+      threshold: cardThreshold(record),
+    }))
+    .sort((a, b) =>
+      CARD_ORDER.indexOf(a.type) - CARD_ORDER.indexOf(b.type) || (a.threshold ?? 0) - (b.threshold ?? 0)
+    );
+
+const withoutKey = <T,>(record: Record<string, T>, key: string): Record<string, T> => {
+  const next = { ...record };
+  delete next[key];
+  return next;
+};
+
+// Proving stages reported while a card regenerates; 'done' is followed by local verification
+const STAGE_LABELS: Record<ProofStage, string> = {
+  queued: 'Waiting',
+  witness: 'Computing witness',
+  msm: 'Proving',
+  done: 'Verifying',
+};
+
 export function ProofsDashboard() {
-  const [proofs, setProofs] = useState<ProofData[]>([]);
+  const wallet = useWallet();
+  const { fetchRegisteredCommitments } = useSolstice();
+  const [proofs, setProofs] = useState<ProofCard[]>([]);
   const [loading, setLoading] = useState(true);
+  const [progress, setProgress] = useState<Record<string, ProofStage>>({});
+  const [cardErrors, setCardErrors] = useState<Record<string, string>>({});
+  const [regeneratingAll, setRegeneratingAll] = useState(false);
+  const [autoRenew, setAutoRenew] = useState(() => getExpiryPolicy().autoRegenerate);
+  const [qrShare, setQrShare] = useState<{ title: string; frames: string[] } | null>(null);
+
+  const walletAddress = wallet.publicKey?.toString();
 
   useEffect(() => {
     loadProofs();
-  }, []);
+  }, [walletAddress]);
+
+  // Keep card status current and renew expiring proofs while identity data is unlocked
+  useEffect(() => {
+    if (!walletAddress) return;
+
+    return startExpiryScheduler(walletAddress, {
+      intervalMs: 60 * 1000,
+      onCheck: (records) => setProofs(toProofCards(records)),
+      regenerate: async (record) => {
+        const identity = getIdentityInputs(walletAddress);
+        if (!identity) throw new Error('Identity data is locked');
+
+        const registeredCommitments = record.type === 'uniqueness' ? await fetchRegisteredCommitments() : [];
+        await regenerateProof(
+          walletAddress,
+          { type: record.type, threshold: cardThreshold(record) },
+          identity,
+          registeredCommitments
+        );
+      },
+    });
+  }, [walletAddress, fetchRegisteredCommitments]);
+
+  const toggleAutoRenew = (enabled: boolean) => {
+    setExpiryPolicy({ autoRegenerate: enabled });
+    setAutoRenew(enabled);
+  };
 
   const loadProofs = async () => {
+    if (!walletAddress) {
+      setProofs([]);
+      setLoading(false);
+      return;
+    }
+
     try {
       setLoading(true);
 
-      // Load proofs from IndexedDB
-      const storedProofs = await getStoredProofs();
-      setProofs(storedProofs);
+      // Load this wallet's proofs from IndexedDB, expired ones included so they can be regenerated
+      const storedProofs = await listProofs(walletAddress, { includeExpired: true });
+      setProofs(toProofCards(storedProofs));
 
     } catch (error) {
       console.error('Error loading proofs:', error);
@@ -34,57 +118,137 @@ export function ProofsDashboard() {
     }
   };
 
-  const getStoredProofs = async (): Promise<ProofData[]> => {
-    return new Promise((resolve) => {
-      const request = indexedDB.open('SolsticeProofs', 1);
+  // Signed, versioned bundle the recipient can verify on its own
+  // Bundles need a proof bound to this wallet, so a fresh one is generated rather than sharing the stored proof
+  const signProofBundle = async (proof: ProofCard) => {
+    if (!walletAddress || !wallet.signMessage) {
+      throw new Error('Your wallet must support message signing to share proofs.');
+    }
+    const signMessage = wallet.signMessage;
+    const identity = await loadIdentity(walletAddress);
+    const registeredCommitments = proof.type === 'uniqueness' ? await fetchRegisteredCommitments() : [];
 
-      request.onupgradeneeded = (event: any) => {
-        const db = event.target.result;
-        if (!db.objectStoreNames.contains('proofs')) {
-          db.createObjectStore('proofs', { keyPath: 'type' });
+    const key = proof.id;
+    setProgress(prev => ({ ...prev, [key]: 'queued' }));
+    try {
+      const proofData = await generateTargetProof(
+        { type: proof.type, threshold: proof.threshold },
+        identity,
+        registeredCommitments,
+        {
+          binding: bundleBindingContext(walletAddress),
+          onProgress: (stage) => setProgress(prev => ({ ...prev, [key]: stage })),
         }
-      };
-
-      request.onsuccess = (event: any) => {
-        const db = event.target.result;
-        const transaction = db.transaction(['proofs'], 'readonly');
-        const store = transaction.objectStore('proofs');
-        const getAllRequest = store.getAll();
-
-        getAllRequest.onsuccess = () => {
-          resolve(getAllRequest.result || []);
-        };
-
-        getAllRequest.onerror = () => {
-          resolve([]);
-        };
-      };
-
-      request.onerror = () => {
-        resolve([]);
-      };
-    });
+      );
+      return await createProofBundle(proofData, {
+        holder: walletAddress,
+        signMessage,
+        expiresAt: proofExpiresAt(proofData, Date.now()),
+      });
+    } finally {
+      setProgress(prev => withoutKey(prev, key));
+    }
   };
 
-  const shareProof = async (proofType: string) => {
-    const proof = proofs.find(p => p.type === proofType);
+  const shareProof = async (key: string) => {
+    const proof = proofs.find(p => p.id === key);
     if (!proof) return;
 
-    const proofData = {
-      type: proof.type,
-      proof: proof.proof,
-      publicSignals: proof.publicSignals,
-      generatedAt: proof.generatedAt,
-    };
+    try {
+      const bundle = await signProofBundle(proof);
+
+      // Copy to clipboard in the compact encoding
+      await navigator.clipboard.writeText(encodeProofBundle(bundle, 'compact'));
+      alert('Proof bundle copied to clipboard! You can now share it with services that need verification.');
+    } catch (error) {
+      console.error('Error sharing proof:', error);
+      alert(`Failed to share proof: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const showProofQr = async (key: string) => {
+    const proof = proofs.find(p => p.id === key);
+    if (!proof) return;
 
-    // Copy to clipboard as JSON
-    await navigator.clipboard.writeText(JSON.stringify(proofData, null, 2));
-    alert('Proof copied to clipboard! You can now share it with services that need verification.');
+    try {
+      const bundle = await signProofBundle(proof);
+      const frames = await renderProofQrFrames(encodeProofQrFrames(bundle));
+      setQrShare({ title: getProofTitle(proof.type, proof.threshold), frames });
+    } catch (error) {
+      console.error('Error rendering proof QR:', error);
+      alert(`Failed to create proof QR: ${error instanceof Error ? error.message : error}`);
+    }
   };
 
-  const regenerateProof = async (proofType: string) => {
-    alert(`Regenerating ${proofType} proof... This feature will generate a fresh proof with updated timestamp.`);
-    // TODO: Implement proof regeneration
+  // Identity data from this session, or from the vault after a wallet signature
+  const loadIdentity = async (walletAddress: string): Promise<IdentityProofInputs> => {
+    const identity = getIdentityInputs(walletAddress);
+    if (identity) return identity;
+
+    if (wallet.signMessage && await hasIdentityVault(walletAddress)) {
+      return unlockIdentityVault(walletAddress, wallet.signMessage);
+    }
+    throw new Error('No identity data on this device. Scan your Aadhaar QR again.');
+  };
+
+  const regenerateCard = async (
+    proof: ProofCard,
+    walletAddress: string,
+    identity: IdentityProofInputs,
+    registeredCommitments: bigint[]
+  ) => {
+    const key = proof.id;
+    setProgress(prev => ({ ...prev, [key]: 'queued' }));
+    setCardErrors(prev => withoutKey(prev, key));
+
+    try {
+      await regenerateProof(
+        walletAddress,
+        { type: proof.type, threshold: proof.threshold },
+        identity,
+        registeredCommitments,
+        { onProgress: (stage) => setProgress(prev => ({ ...prev, [key]: stage })) }
+      );
+    } catch (error: unknown) {
+      console.error(`Failed to regenerate ${key} proof:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      setCardErrors(prev => ({ ...prev, [key]: message }));
+    } finally {
+      setProgress(prev => withoutKey(prev, key));
+    }
+  };
+
+  const regenerate = async (targets: ProofCard[]) => {
+    if (!walletAddress || targets.length === 0) return;
+
+    try {
+      const identity = await loadIdentity(walletAddress);
+      // Only the uniqueness proof needs the registry
+      const registeredCommitments = targets.some(p => p.type === 'uniqueness')
+        ? await fetchRegisteredCommitments()
+        : [];
+
+      await Promise.all(targets.map(p => regenerateCard(p, walletAddress, identity, registeredCommitments)));
+      await loadProofs();
+    } catch (error: unknown) {
+      console.error('Error regenerating proofs:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      setCardErrors(prev => ({
+        ...prev,
+        ...Object.fromEntries(targets.map(p => [p.id, message])),
+      }));
+    }
+  };
+
+  const regenerateProofCard = (key: string) => regenerate(proofs.filter(p => p.id === key));
+
+  const regenerateAll = async () => {
+    setRegeneratingAll(true);
+    try {
+      await regenerate(proofs);
+    } finally {
+      setRegeneratingAll(false);
+    }
   };
 
   const getProofIcon = (type: string) => {
@@ -100,10 +264,10 @@ export function ProofsDashboard() {
     }
   };
 
-  const getProofTitle = (type: string) => {
+  const getProofTitle = (type: string, threshold?: number) => {
     switch (type) {
       case 'age':
-        return 'Age Proof';
+        return threshold !== undefined ? `Age Proof (${threshold}+)` : 'Age Proof';
       case 'nationality':
         return 'Nationality Proof';
       case 'uniqueness':
@@ -113,10 +277,12 @@ export function ProofsDashboard() {
     }
   };
 
-  const getProofDescription = (type: string) => {
+  const getProofDescription = (type: string, threshold?: number) => {
     switch (type) {
       case 'age':
-        return 'Proves you are above a certain age without revealing your date of birth';
+        return threshold !== undefined
+          ? `Proves you are at least ${threshold} without revealing your date of birth`
+          : 'Proves you are above a certain age without revealing your date of birth';
       case 'nationality':
         return 'Proves your nationality without revealing other personal information';
       case 'uniqueness':
@@ -148,18 +314,42 @@ export function ProofsDashboard() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold text-text-primary mb-2 font-serif">My Identity Proofs</h2>
-        <p className="text-text-secondary font-futuristic font-light">
-          Your zero-knowledge proofs allow you to verify attributes without revealing personal data.
-          Share these proofs with services that need identity verification.
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-text-primary mb-2 font-serif">My Identity Proofs</h2>
+          <p className="text-text-secondary font-futuristic font-light">
+            Your zero-knowledge proofs allow you to verify attributes without revealing personal data.
+            Share these proofs with services that need identity verification.
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <button
+            onClick={regenerateAll}
+            disabled={regeneratingAll || Object.keys(progress).length > 0}
+            className="flex items-center gap-2 px-4 py-2 bg-tertiary hover:bg-tertiary/70 text-text-primary rounded-lg transition-all duration-300 text-sm font-medium font-futuristic whitespace-nowrap disabled:opacity-50"
+            title="Regenerate every proof with a fresh timestamp"
+          >
+            <RefreshCw className={`w-4 h-4 ${regeneratingAll ? 'animate-spin' : ''}`} />
+            Regenerate All
+          </button>
+          <label
+            className="flex items-center gap-2 text-xs text-text-muted font-futuristic whitespace-nowrap"
+            title="Renew expiring proofs in the background while your identity vault is unlocked"
+          >
+            <input
+              type="checkbox"
+              checked={autoRenew}
+              onChange={(e) => toggleAutoRenew(e.target.checked)}
+            />
+            Auto-renew expiring proofs
+          </label>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {proofs.map((proof, index) => (
           <motion.div
-            key={proof.type}
+            key={proof.id}
             className="bg-secondary/50 border border-border-custom rounded-xl p-6 hover:border-vintage-grape-500 transition-colors"
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -172,7 +362,7 @@ export function ProofsDashboard() {
                 <span className="text-3xl">{getProofIcon(proof.type)}</span>
                 <div>
                   <h3 className="text-lg font-semibold text-text-primary font-serif">
-                    {getProofTitle(proof.type)}
+                    {getProofTitle(proof.type, proof.threshold)}
                   </h3>
                   <div className="flex items-center gap-2 mt-1">
                     {proof.status === 'valid' ? (
@@ -180,6 +370,11 @@ export function ProofsDashboard() {
                         <CheckCircle className="w-4 h-4 text-green-500" />
                         <span className="text-sm text-green-500">Valid</span>
                       </>
+                    ) : proof.status === 'expiring-soon' ? (
+                      <>
+                        <Clock className="w-4 h-4 text-yellow-500" />
+                        <span className="text-sm text-yellow-500">Expiring soon</span>
+                      </>
                     ) : (
                       <>
                         <XCircle className="w-4 h-4 text-red-500" />
@@ -193,7 +388,7 @@ export function ProofsDashboard() {
 
             {/* Description */}
             <p className="text-sm text-text-secondary mb-4 font-futuristic font-light">
-              {getProofDescription(proof.type)}
+              {getProofDescription(proof.type, proof.threshold)}
             </p>
 
             {/* Metadata */}
@@ -208,21 +403,42 @@ export function ProofsDashboard() {
               )}
             </div>
 
+            {/* Regeneration status */}
+            {progress[proof.id] && (
+              <div className="flex items-center gap-2 text-xs text-vintage-grape-400 mb-4 font-futuristic">
+                <RefreshCw className="w-3 h-3 animate-spin" />
+                {STAGE_LABELS[progress[proof.id]]}
+              </div>
+            )}
+            {cardErrors[proof.id] && (
+              <div className="text-xs text-red-400 mb-4 font-futuristic">
+                {cardErrors[proof.id]}
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex gap-2">
               <button
-                onClick={() => shareProof(proof.type)}
+                onClick={() => shareProof(proof.id)}
                 className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-vintage-grape-600 hover:bg-vintage-grape-700 text-white rounded-lg transition-all duration-300 text-sm font-medium font-futuristic hover:shadow-lg hover:shadow-vintage-grape-500/20"
               >
                 <Share2 className="w-4 h-4" />
                 Share
               </button>
               <button
-                onClick={() => regenerateProof(proof.type)}
+                onClick={() => showProofQr(proof.id)}
                 className="flex items-center justify-center gap-2 px-4 py-2 bg-tertiary hover:bg-tertiary/70 text-text-primary rounded-lg transition-all duration-300 text-sm font-medium font-futuristic"
+                title="Show as QR code"
+              >
+                <QrCode className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => regenerateProofCard(proof.id)}
+                disabled={!!progress[proof.id]}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-tertiary hover:bg-tertiary/70 text-text-primary rounded-lg transition-all duration-300 text-sm font-medium font-futuristic disabled:opacity-50"
                 title="Regenerate proof with fresh timestamp"
               >
-                <RefreshCw className="w-4 h-4" />
+                <RefreshCw className={`w-4 h-4 ${progress[proof.id] ? 'animate-spin' : ''}`} />
               </button>
             </div>
           </motion.div>
@@ -235,7 +451,15 @@ export function ProofsDashboard() {
         <ul className="space-y-2 text-sm text-blue-200 font-futuristic font-light">
           <li className="flex items-start gap-2">
             <span className="text-blue-400 mt-0.5">•</span>
-            <span>Click "Share" to copy the proof data to your clipboard</span>
+            <span>Click "Share" to copy a signed proof bundle to your clipboard</span>
+          </li>
+          <li className="flex items-start gap-2">
+            <span className="text-blue-400 mt-0.5">•</span>
+            <span>Or show it as a QR code for a verifier's phone to scan</span>
+          </li>
+          <li className="flex items-start gap-2">
+            <span className="text-blue-400 mt-0.5">•</span>
+            <span>Recipients can check a shared proof at /verify, no wallet needed</span>
           </li>
           <li className="flex items-start gap-2">
             <span className="text-blue-400 mt-0.5">•</span>
@@ -251,6 +475,10 @@ export function ProofsDashboard() {
           </li>
         </ul>
       </div>
+
+      {qrShare && (
+        <ProofQrDialog title={qrShare.title} frames={qrShare.frames} onClose={() => setQrShare(null)} />
+      )}
     </div>
   );
 }
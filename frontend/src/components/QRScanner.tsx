@@ -3,12 +3,19 @@ import jsQR from 'jsqr';
 import { useSolstice } from '../contexts/SolsticeContext';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { Camera, Upload, CheckCircle, Loader, X } from 'lucide-react';
-import { generateAllProofs, storeProofs } from '../lib/proofGenerator';
-import { parseAadhaarQR, isMadhaarQR, isPhysicalCardQR } from '../lib/aadhaarParser';
+import { generateAllProofs, storeProofs, STANDARD_AGE_THRESHOLDS } from '../lib/proofGenerator';
+import { computeIdentityCommitment } from '../lib/commitment';
+import { fieldToHex } from '../lib/hashToField';
+import { deriveIdentitySecret } from '../lib/identitySecret';
+import { buildRegistryTree, getMerkleRoot } from '../lib/merkleTree';
+import { setIdentityInputs } from '../lib/identitySession';
+import { sealIdentityVault } from '../lib/identityVault';
+import { aadhaarFieldHash, aadhaarIdentifier, parseAnyAadhaarQR, isMadhaarQR, isPhysicalCardQR, requireUidaiSigned } from '../lib/aadhaarParser';
+import { AadhaarSignatureError } from '../lib/aadhaarSignature';
 import { verifyAadhaarWalletLink, linkAadhaarToWallet, recordOnboardingCompletion } from '../lib/onboarding';
 
 export function QRScanner() {
-  const { parseQRCode, registerIdentity, loading } = useSolstice();
+  const { parseQRCode, registerIdentity, fetchRegisteredCommitments, loading } = useSolstice();
   const wallet = useWallet();
   const [scanning, setScanning] = useState(false);
   // qrData is handled directly via callbacks; provide a local no-op setter to keep calls harmless
@@ -157,7 +164,7 @@ export function QRScanner() {
       console.log('First 100 chars:', data.substring(0, 100));
 
       // Extract Aadhaar hash early for verification
-      const aadhaarHash = data.substring(0, 12);
+      const aadhaarHash = await aadhaarIdentifier(data);
       
       // Check if this Aadhaar is already linked to another wallet
       if (wallet.publicKey) {
@@ -176,25 +183,18 @@ export function QRScanner() {
         }
       }
 
-      // Check if it's XML format (physical Aadhaar card QR)
+      // XML QR codes come from physical Aadhaar cards and eAadhaar PDFs
       if (isPhysicalCardQR(data)) {
-        console.log('Detected XML format Aadhaar Secure QR Code (from physical card/eAadhaar)');
-        alert('This QR code is from a physical Aadhaar card or eAadhaar PDF.\n\nPlease use the QR code from the mAadhaar mobile app instead:\n\n1. Open mAadhaar app on your phone\n2. Go to My Aadhaar → Share\n3. Select "Share QR Code"\n4. Take a screenshot and upload here');
-        return;
-      }
-
-      // Check if it's a valid mAadhaar QR (numeric string)
-      if (!isMadhaarQR(data)) {
+        console.log('Detected XML format Aadhaar QR Code (from physical card/eAadhaar)');
+      } else if (!isMadhaarQR(data)) {
+        // Otherwise it must be a valid mAadhaar QR (numeric string)
         console.error('QR code is not in mAadhaar format');
-        alert('Invalid QR code format.\n\nmAadhaar QR codes are numeric strings (several hundred characters long).\n\nPlease ensure:\n1. You are using the mAadhaar app (not physical card)\n2. The QR code image is clear and complete\n3. You scanned the entire QR code');
+        alert('Invalid QR code format.\n\nmAadhaar QR codes are numeric strings (several hundred characters long); Aadhaar card QR codes contain XML.\n\nPlease ensure:\n1. You are scanning an Aadhaar QR code\n2. The QR code image is clear and complete\n3. You scanned the entire QR code');
         return;
       }
 
-      console.log('Valid mAadhaar QR format detected');
-
       try {
-        // Parse QR using @anon-aadhaar/core (same as Self Protocol)
-        const aadhaarData = parseAadhaarQR(data);
+        const aadhaarData = requireUidaiSigned(await parseAnyAadhaarQR(data));
 
         // Convert to internal format
         const identityData = {
@@ -203,9 +203,10 @@ export function QRScanner() {
           dateOfBirth: aadhaarData.dateOfBirth,
           gender: aadhaarData.gender,
           address: aadhaarData.address,
-          photo: '',
           signature: '',
           aadhaarNumber: `XXXX-XXXX-${aadhaarData.aadhaarLast4Digits}`,
+          aadhaarHash: await aadhaarFieldHash(data),
+          trustLevel: aadhaarData.trustLevel,
         };
 
         console.log('Identity data ready for registration');
@@ -213,6 +214,11 @@ export function QRScanner() {
         setAadhaarHash(aadhaarHash); // Store for later linking
 
       } catch (parseError: any) {
+        if (parseError instanceof AadhaarSignatureError) {
+          console.error('Aadhaar signature check failed:', parseError);
+          alert(`This QR code could not be verified as issued by UIDAI.\n\n${parseError.message}`);
+          return;
+        }
         console.error('Failed to parse mAadhaar QR:', parseError);
         alert(`Failed to parse mAadhaar QR code.\n\n${parseError.message}\n\nPlease ensure:\n1. You are using the latest mAadhaar app\n2. The QR code screenshot is clear and complete\n3. You are uploading the "Share QR Code" from the app`);
         return;
@@ -232,13 +238,37 @@ export function QRScanner() {
   };
 
   const handleRegister = async () => {
-    if (!commitment || !wallet.publicKey) return;
+    if (!commitment || !parsedData || !wallet.publicKey) return;
+    if (!wallet.signMessage) {
+      alert('Your wallet must support message signing to derive your identity secret.');
+      return;
+    }
 
     try {
-      // Generate merkle root (in production, this would involve actual merkle tree)
-      const merkleRoot = commitment; // Simplified for demo
+      // Parse date of birth (DD/MM/YYYY → YYYYMMDD string format)
+      const [day, month, year] = parsedData.dateOfBirth.split('/');
+      const dobFormatted = `${year}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
 
-      const success = await registerIdentity(commitment, merkleRoot);
+      // Extract nationality from address (simplified - you may need better parsing)
+      const nationality = 'IN'; // Default to India for Aadhaar
+
+      // Identity secret from a wallet signature, reproducible on any device
+      const identitySecret = await deriveIdentitySecret(wallet.publicKey.toString(), wallet.signMessage);
+
+      // Register the Poseidon commitment that the proofs below use as commitmentHash
+      const commitmentValue = await computeIdentityCommitment({
+        identitySecret,
+        dateOfBirth: dobFormatted,
+        nationality
+      });
+      const identityCommitment = fieldToHex(commitmentValue);
+
+      // Registry root over every registered commitment plus ours
+      const registeredCommitments = await fetchRegisteredCommitments();
+      const registryTree = await buildRegistryTree(registeredCommitments, commitmentValue);
+      const merkleRoot = fieldToHex(getMerkleRoot(registryTree));
+
+      const success = await registerIdentity(identityCommitment, merkleRoot);
 
       if (success) {
         setStep('registered');
@@ -247,70 +277,72 @@ export function QRScanner() {
         // Link Aadhaar to wallet and record onboarding completion
         if (aadhaarHash && wallet.publicKey) {
           linkAadhaarToWallet(aadhaarHash, wallet.publicKey.toString());
-          recordOnboardingCompletion(wallet.publicKey.toString());
+          recordOnboardingCompletion(wallet.publicKey.toString(), parsedData.trustLevel, identityCommitment);
           console.log('Aadhaar linked to wallet');
         }
 
         // Auto-generate all ZK proofs after successful registration
-        if (parsedData) {
-          setGeneratingProofs(true);
-          console.log('Auto-generating ZK proofs in browser...');
-
-          try {
-            // Parse date of birth (DD/MM/YYYY → YYYYMMDD string format)
-            const [day, month, year] = parsedData.dateOfBirth.split('/');
-            const dobFormatted = `${year}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
-
-            // Extract nationality from address (simplified - you may need better parsing)
-            const nationality = 'IN'; // Default to India for Aadhaar
-
-            // Generate nonce from commitment (deterministic)
-            const nonce = BigInt('0x' + commitment.slice(0, 16)).toString();
-
-            const identityForProofs = {
-              dateOfBirth: dobFormatted,
-              nationality,
-              aadhaarNumber: parsedData.aadhaarNumber,
-              nonce
-            };
-
-            console.log('Identity data prepared:', {
-              ...identityForProofs,
-              aadhaarNumber: '****-****-' + identityForProofs.aadhaarNumber.slice(-4) // Redacted for console
+        setGeneratingProofs(true);
+        console.log('Auto-generating ZK proofs in browser...');
+
+        try {
+          const identityForProofs = {
+            dateOfBirth: dobFormatted,
+            nationality,
+            aadhaarHash: parsedData.aadhaarHash,
+            identitySecret: identitySecret.toString()
+          };
+
+          console.log('Identity data prepared:', {
+            ...identityForProofs,
+            identitySecret: '[redacted]'
+          });
+
+          // Generate all proofs in parallel (~5 seconds)
+          const { ageProof, ageProofs, nationalityProof, uniquenessProof, errors } =
+            await generateAllProofs(identityForProofs, {
+              ageThreshold: 18,
+              ageThresholds: STANDARD_AGE_THRESHOLDS,
+              allowedNationality: 'IN',
+              registeredCommitments
             });
 
-            // Generate all proofs in parallel (~5 seconds)
-            const { ageProof, nationalityProof, uniquenessProof, errors } =
-              await generateAllProofs(identityForProofs, {
-                ageThreshold: 18,
-                allowedNationality: 'IN'
-              });
-
-            // Store proofs locally (7-day expiry)
-            storeProofs(wallet.publicKey.toString(), {
-              age: ageProof || undefined,
-              nationality: nationalityProof || undefined,
-              uniqueness: uniquenessProof || undefined
-            });
+          // Store proofs locally (7-day expiry)
+          storeProofs(wallet.publicKey.toString(), {
+            age: ageProof || undefined,
+            ageByThreshold: ageProofs,
+            nationality: nationalityProof || undefined,
+            uniqueness: uniquenessProof || undefined
+          });
+
+          console.log('ZK Proofs generated and stored locally!');
+          if (ageProof) console.log('  Age proof (>18 years)');
+          Object.keys(ageProofs).forEach(threshold => console.log(`  Age proof (${threshold}+)`));
+          if (nationalityProof) console.log('  Nationality proof (Indian)');
+          if (uniquenessProof) console.log('  Uniqueness proof');
+
+          if (errors.length > 0) {
+            console.warn('Some proofs failed:', errors);
+          }
 
-            console.log('ZK Proofs generated and stored locally!');
-            if (ageProof) console.log('  Age proof (>18 years)');
-            if (nationalityProof) console.log('  Nationality proof (Indian)');
-            if (uniquenessProof) console.log('  Uniqueness proof');
+          // Keep the proving inputs in memory for this session so challenges can get fresh proofs
+          setIdentityInputs(wallet.publicKey.toString(), identityForProofs);
 
-            if (errors.length > 0) {
-              console.warn('Some proofs failed:', errors);
-            }
+          // And seal them into the encrypted vault so later sessions can re-prove
+          if (wallet.signMessage) {
+            await sealIdentityVault(wallet.publicKey.toString(), wallet.signMessage, identityForProofs).catch((vaultError) => {
+              console.warn('Identity vault not saved:', vaultError);
+            });
+          }
 
-            // Clear sensitive data after proof generation
-            setParsedData(null);
+          // Clear sensitive data after proof generation
+          setParsedData(null);
 
-          } catch (proofError) {
-            console.error('Failed to generate proofs:', proofError);
-            console.log('You can regenerate proofs later in the Verification Flow tab');
-          } finally {
-            setGeneratingProofs(false);
-          }
+        } catch (proofError) {
+          console.error('Failed to generate proofs:', proofError);
+          console.log('You can regenerate proofs later in the Verification Flow tab');
+        } finally {
+          setGeneratingProofs(false);
         }
       }
     } catch (error) {
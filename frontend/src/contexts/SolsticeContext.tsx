@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import type { AnchorWallet } from '@solana/wallet-adapter-react';
 import { PublicKey } from '@solana/web3.js';
@@ -7,8 +7,12 @@ import {
   createProvider, 
   getSolsticeProgram, 
   registerIdentity as registerIdentityOnChain,
-  verifyIdentity as verifyIdentityOnChain 
+  verifyIdentity as verifyIdentityOnChain,
+  fetchRegisteredCommitments as fetchRegisteredCommitmentsOnChain
 } from '../lib/anchor';
+import type { CircuitId } from '../lib/circuitRegistry';
+import { prefetchCircuitArtifacts } from '../lib/artifactCache';
+import { lockIdentityVault } from '../lib/identityVault';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
@@ -25,6 +29,7 @@ interface SolsticeContextType {
   error: string | null;
   parseQRCode: (qrData: string) => Promise<{ commitment: string; success: boolean }>;
   registerIdentity: (commitment: string, merkleRoot: string) => Promise<boolean>;
+  fetchRegisteredCommitments: () => Promise<bigint[]>;
   generateProof: (attributeType: string, privateInputs: any, publicInputs: any) => Promise<any>;
   verifyIdentity: (proof: any, publicSignals: any, attributeType: string) => Promise<boolean>;
   fetchIdentity: (walletAddress: string) => Promise<void>;
@@ -40,6 +45,20 @@ export function SolsticeProvider({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Warm the circuit cache in the background so proving works offline later
+  useEffect(() => {
+    if (!wallet.connected) return;
+    prefetchCircuitArtifacts().catch((err) => {
+      console.warn('Circuit prefetch failed:', err);
+    });
+  }, [wallet.connected]);
+
+  // Decrypted identity data belongs to one wallet; lock it when the wallet changes
+  const walletAddress = wallet.publicKey?.toString();
+  useEffect(() => {
+    return () => lockIdentityVault();
+  }, [walletAddress]);
+
   const parseQRCode = useCallback(async (qrData: string) => {
     try {
       setLoading(true);
@@ -129,6 +148,11 @@ export function SolsticeProvider({ children }: { children: React.ReactNode }) {
     }
   }, [wallet, connection]);
 
+  // Commitments of every other registered identity, used to build the registry Merkle tree
+  const fetchRegisteredCommitments = useCallback(async () => {
+    return fetchRegisteredCommitmentsOnChain(connection, wallet.publicKey ?? undefined);
+  }, [connection, wallet.publicKey]);
+
   const generateProof = useCallback(async (attributeType: string, privateInputs: any, publicInputs: any) => {
     try {
       setLoading(true);
@@ -189,7 +213,7 @@ export function SolsticeProvider({ children }: { children: React.ReactNode }) {
         wallet.publicKey,
         proof,
         publicSignals,
-        attributeType as 'age' | 'nationality' | 'uniqueness'
+        attributeType as CircuitId
       );
 
       console.log('Proof verified on-chain:', txSignature);
@@ -271,6 +295,7 @@ export function SolsticeProvider({ children }: { children: React.ReactNode }) {
     error,
     parseQRCode,
     registerIdentity,
+    fetchRegisteredCommitments,
     generateProof,
     verifyIdentity,
     fetchIdentity,
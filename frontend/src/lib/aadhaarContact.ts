@@ -0,0 +1,67 @@
+/**
+ * Aadhaar Contact Check
+ * Confirms a mobile number or email the holder types in against the hashes in their Secure QR
+ *
+ * UIDAI hashes the registered value with SHA-256 as many times as the last digit of the
+ * Aadhaar number (once for 0 or 1), each round hashing the previous hex digest. Matching it
+ * shows the person onboarding knows the holder's registered contact. Runs on device only.
+ */
+
+import type { AadhaarData } from './aadhaarParser';
+import { sha256Hex } from './artifactIntegrity';
+
+export type AadhaarContactKind = 'mobile' | 'email';
+
+type ContactHashes = Pick<AadhaarData, 'aadhaarLast4Digits' | 'emailHash' | 'mobileHash'>;
+
+/**
+ * Whether the QR carries a hash to check this kind of contact against
+ */
+export function hasContactHash(aadhaar: ContactHashes, kind: AadhaarContactKind): boolean {
+  return Boolean(kind === 'mobile' ? aadhaar.mobileHash : aadhaar.emailHash);
+}
+
+/**
+ * Reduce a typed mobile number to the 10 digits UIDAI hashes, without +91 or spacing
+ */
+function normalizeMobile(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+async function iteratedSha256(value: string, rounds: number): Promise<string> {
+  let digest = value;
+  for (let i = 0; i < rounds; i++) {
+    digest = await sha256Hex(new TextEncoder().encode(digest));
+  }
+  return digest;
+}
+
+/**
+ * Check a mobile number or email against the hash in the holder's Secure QR
+ * @returns false when it does not match or the QR has no hash for that kind
+ */
+export async function verifyAadhaarContact(
+  aadhaar: ContactHashes,
+  kind: AadhaarContactKind,
+  value: string
+): Promise<boolean> {
+  const expected = kind === 'mobile' ? aadhaar.mobileHash : aadhaar.emailHash;
+  if (!expected) return false;
+
+  const lastDigit = Number(aadhaar.aadhaarLast4Digits.slice(-1));
+  if (!Number.isInteger(lastDigit)) return false;
+  const rounds = Math.max(lastDigit, 1);
+
+  // Emails are registered as typed; try the lowercase form too since case is easy to get wrong
+  const candidates = kind === 'mobile'
+    ? [normalizeMobile(value)]
+    : Array.from(new Set([value.trim(), value.trim().toLowerCase()]));
+
+  for (const candidate of candidates) {
+    if (candidate && await iteratedSha256(candidate, rounds) === expected.toLowerCase()) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,100 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import pako from 'pako';
+import { parseAadhaarQR } from './aadhaarParser';
+import type { SecureQrVersion } from './aadhaarParser';
+import { AadhaarSignatureError } from './aadhaarSignature';
+import { TEST_KEY_ID, testAadhaarSigner } from '../test/aadhaarTestKey';
+import type { FixtureSigner } from '../test/aadhaarTestKey';
+
+// Trust the fixture key alongside the bundled UIDAI keys
+vi.mock('../../public/aadhaar/uidai-keys.json', async (importOriginal) =>
+  (await import('../test/aadhaarTestKey')).withTestAadhaarKey(await importOriginal()));
+
+// Secure QR text fields after the version prefix, in order (see LEGACY_FIELDS)
+const FIELDS = [
+  '123420240101120000000', // referenceId: last 4 digits + generation time
+  'Asha Verma', '15-08-1990', 'F', 'C/O Ravi', 'Pune', 'Near Temple', '12', 'Kothrud',
+  '411001', 'Kothrud', 'Maharashtra', 'MG Road', 'Haveli', 'Pune',
+];
+
+// Starts like a JPEG2000 codestream; 0xFF bytes must not be read as delimiters
+const PHOTO = Uint8Array.from([0xff, 0x4f, 0xff, 0x51, 0x00, 0x2f, 0x00, 0x00, 0xff, 0xd9]);
+const EMAIL_HASH = new Uint8Array(32).fill(0xe1);
+const MOBILE_HASH = new Uint8Array(32).fill(0x3b);
+
+const hex = (bytes: Uint8Array) => Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+let sign: FixtureSigner;
+
+beforeAll(async () => {
+  sign = await testAadhaarSigner();
+});
+
+/**
+ * Signed Secure QR bytes, laid out as UIDAI does: [V<n>] indicator fields [mobileLast4] photo hashes signature
+ */
+async function secureQrBytes(version: SecureQrVersion | 'V9', indicator: number): Promise<Uint8Array> {
+  const text = [String(indicator), ...FIELDS];
+  if (version !== 'V1') text.unshift(version);
+  if (version !== 'V1') text.push('6789'); // mobileLast4
+
+  const parts: Uint8Array[] = text.map((field) => Uint8Array.from([...new TextEncoder().encode(field), 255]));
+  parts.push(PHOTO);
+  if (indicator & 1) parts.push(EMAIL_HASH);
+  if (indicator & 2) parts.push(MOBILE_HASH);
+
+  const signedData = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((offset, part) => {
+    signedData.set(part, offset);
+    return offset + part.length;
+  }, 0);
+
+  const signature = await sign(signedData);
+  const data = new Uint8Array(signedData.length + signature.length);
+  data.set(signedData);
+  data.set(signature, signedData.length);
+  return data;
+}
+
+/**
+ * The numeric string a Secure QR code holds: the gzipped bytes as one big decimal number
+ */
+function toQrNumber(bytes: Uint8Array): string {
+  return BigInt(`0x${hex(pako.gzip(bytes))}`).toString();
+}
+
+const VERSIONS: SecureQrVersion[] = ['V1', 'V2', 'V3', 'V4'];
+const CASES = VERSIONS.flatMap((version) => [0, 1, 2, 3].map((indicator) => [version, indicator] as const));
+
+describe('parseAadhaarQR', () => {
+  it.each(CASES)('reads Secure QR %s with email/mobile indicator %i', async (version, indicator) => {
+    const data = await parseAadhaarQR(toQrNumber(await secureQrBytes(version, indicator)));
+
+    expect(data).toMatchObject({
+      name: 'Asha Verma',
+      dateOfBirth: '15/08/1990',
+      gender: 'F',
+      aadhaarLast4Digits: '1234',
+      pincode: '411001',
+      state: 'Maharashtra',
+      photo: btoa(String.fromCharCode(...PHOTO)),
+      source: 'secure-qr',
+      trustLevel: 'uidai-signed',
+      signingKeyId: TEST_KEY_ID,
+      secureQrVersion: version,
+      emailMobileIndicator: indicator,
+    });
+    expect(data.emailHash).toBe(indicator & 1 ? hex(EMAIL_HASH) : undefined);
+    expect(data.mobileHash).toBe(indicator & 2 ? hex(MOBILE_HASH) : undefined);
+  });
+
+  it('rejects tampered data', async () => {
+    const bytes = await secureQrBytes('V2', 3);
+    bytes[bytes.indexOf(0x41)] = 0x42; // 'A' of the name
+    await expect(parseAadhaarQR(toQrNumber(bytes))).rejects.toBeInstanceOf(AadhaarSignatureError);
+  });
+
+  it('rejects an unknown version', async () => {
+    await expect(parseAadhaarQR(toQrNumber(await secureQrBytes('V9', 0)))).rejects.toThrow(/Unsupported Secure QR version V9/);
+  });
+});
@@ -5,11 +5,24 @@
  */
 
 import * as aadhaarCore from '@anon-aadhaar/core';
+import { AADHAAR_SIGNATURE_LENGTH, AadhaarSignatureError, referenceTimestamp, verifyAadhaarSignature } from './aadhaarSignature';
+import { parseAadhaarXml, xmlAadhaarIdentity } from './aadhaarXmlParser';
+import { sha256Hex } from './artifactIntegrity';
+import { hashToField } from './hashToField';
 
 // These utilities exist but aren't in the type definitions
 const convertBigIntToByteArray = (aadhaarCore as any).convertBigIntToByteArray;
 const decompressByteArray = (aadhaarCore as any).decompressByteArray;
 
+/**
+ * How far the data can be trusted:
+ *   uidai-signed  UIDAI signature checked against a known key
+ *   unverified    Unsigned source (old print-letter XML); anyone could have made it
+ */
+export type AadhaarTrustLevel = 'uidai-signed' | 'unverified';
+
+export type AadhaarSource = 'secure-qr' | 'print-letter-xml' | 'signed-xml';
+
 export interface AadhaarData {
   name: string;
   dateOfBirth: string; // DD/MM/YYYY format
@@ -18,30 +31,136 @@ export interface AadhaarData {
   aadhaarLast4Digits: string;
   pincode?: string;
   state?: string;
-  photo?: string; // Base64 encoded if available
+  photo?: string; // Base64 encoded if available: JPEG2000 from Secure QR (see aadhaarPhoto.ts)
+  source: AadhaarSource;
+  trustLevel: AadhaarTrustLevel;
+  signingKeyId?: string; // UIDAI key that signed the data (see aadhaarSignature.ts)
+  secureQrVersion?: SecureQrVersion; // Secure QR only
+  emailMobileIndicator?: number;     // Secure QR only: 0 none, 1 email, 2 mobile, 3 both hashes present
+  emailHash?: string;  // Secure QR only: hex, checked with aadhaarContact.ts
+  mobileHash?: string; // Secure QR only: hex, checked with aadhaarContact.ts
 }
 
+export type SecureQrVersion = 'V1' | 'V2' | 'V3' | 'V4';
+
+type SecureQrField =
+  | 'version' | 'emailMobileIndicator' | 'referenceId' | 'name' | 'dob' | 'gender'
+  | 'careOf' | 'district' | 'landmark' | 'house' | 'location' | 'pincode' | 'postOffice'
+  | 'state' | 'street' | 'subDistrict' | 'vtc' | 'mobileLast4';
+
 /**
- * Field positions in Aadhaar QR data (after delimiters)
- * Based on @anon-aadhaar/core constants
+ * Text fields of each Secure QR version, in order, each ended by a 255 delimiter
+ * The photo follows the last one. Based on @anon-aadhaar/core IdFields
  */
-const FIELD_POSITIONS = {
-  REFERENCE_ID: 2,
-  NAME: 3,
-  DOB: 4,
-  GENDER: 5,
-  PINCODE: 11,
-  STATE: 13,
-  PHONE_NO: 17,
-  PHOTO: 18,
-} as const;
+const LEGACY_FIELDS: readonly SecureQrField[] = [
+  'emailMobileIndicator', 'referenceId', 'name', 'dob', 'gender', 'careOf', 'district', 'landmark',
+  'house', 'location', 'pincode', 'postOffice', 'state', 'street', 'subDistrict', 'vtc',
+];
+// V2 adds a version prefix and the last 4 digits of the registered mobile
+const V2_FIELDS: readonly SecureQrField[] = ['version', ...LEGACY_FIELDS, 'mobileLast4'];
+
+const SECURE_QR_LAYOUTS: Record<SecureQrVersion, readonly SecureQrField[]> = {
+  V1: LEGACY_FIELDS, // Unversioned QRs, which start with the indicator
+  V2: V2_FIELDS,
+  V3: V2_FIELDS,
+  V4: V2_FIELDS,
+};
+
+interface SecureQrContents {
+  version: SecureQrVersion;
+  emailMobileIndicator: number; // 0 none, 1 email, 2 mobile, 3 both hashes present
+  fields: Record<SecureQrField, string>;
+  photo: Uint8Array;  // JPEG2000, between the last field and the email/mobile hashes
+  emailHash: Uint8Array | null;
+  mobileHash: Uint8Array | null;
+  signedData: Uint8Array;
+  signature: Uint8Array;
+}
+
+const HASH_LENGTH = 32;
+
+function bytesToText(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => String.fromCharCode(b)).join('').trim();
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
 
 /**
- * Parse mAadhaar QR code data
+ * Split decompressed Secure QR bytes into header, text fields, photo offset and signature
+ */
+function readSecureQr(decodedData: Uint8Array): SecureQrContents {
+  if (decodedData.length <= AADHAAR_SIGNATURE_LENGTH) {
+    throw new Error('QR data is too short to carry a signature');
+  }
+  const signedData = decodedData.slice(0, decodedData.length - AADHAAR_SIGNATURE_LENGTH);
+  const signature = decodedData.slice(decodedData.length - AADHAAR_SIGNATURE_LENGTH);
+
+  // Versioned QRs start with "V<n>"; older ones go straight to the indicator digit
+  const prefix = bytesToText(signedData.slice(0, signedData.indexOf(255)));
+  let version: SecureQrVersion;
+  if (/^V\d+$/.test(prefix)) {
+    if (!(prefix in SECURE_QR_LAYOUTS)) {
+      throw new Error(`Unsupported Secure QR version ${prefix}`);
+    }
+    version = prefix as SecureQrVersion;
+  } else {
+    version = 'V1';
+  }
+  const layout = SECURE_QR_LAYOUTS[version];
+
+  const fields = {} as Record<SecureQrField, string>;
+  let start = 0;
+  for (const field of layout) {
+    const end = signedData.indexOf(255, start);
+    if (end < 0) {
+      throw new Error(`Secure QR ${version} data ends before the ${field} field`);
+    }
+    fields[field] = bytesToText(signedData.slice(start, end));
+    start = end + 1;
+  }
+
+  const emailMobileIndicator = Number(fields.emailMobileIndicator);
+  if (!/^[0-3]$/.test(fields.emailMobileIndicator)) {
+    throw new Error(`Invalid email/mobile indicator: ${fields.emailMobileIndicator}`);
+  }
+
+  // SHA-256 hashes of the registered email and/or mobile close the signed data, mobile last
+  const hasEmail = (emailMobileIndicator & 1) === 1;
+  const hasMobile = (emailMobileIndicator & 2) === 2;
+  const photoEnd = signedData.length - HASH_LENGTH * (Number(hasEmail) + Number(hasMobile));
+  if (photoEnd < start) {
+    throw new Error('Secure QR data is too short for its email/mobile hashes');
+  }
+  const mobileStart = signedData.length - HASH_LENGTH;
+  const emailStart = hasMobile ? mobileStart - HASH_LENGTH : mobileStart;
+
+  return {
+    version,
+    emailMobileIndicator,
+    fields,
+    photo: signedData.slice(start, photoEnd),
+    emailHash: hasEmail ? signedData.slice(emailStart, emailStart + HASH_LENGTH) : null,
+    mobileHash: hasMobile ? signedData.slice(mobileStart) : null,
+    signedData,
+    signature,
+  };
+}
+
+/**
+ * Parse mAadhaar QR code data and verify its UIDAI signature
  * @param qrData - Numeric string from mAadhaar QR code
  * @returns Parsed Aadhaar data
+ * @throws AadhaarSignatureError when the QR is not signed by a known UIDAI key
  */
-export function parseAadhaarQR(qrData: string): AadhaarData {
+export async function parseAadhaarQR(qrData: string): Promise<AadhaarData> {
   // Validate input is a numeric string
   if (!/^\d+$/.test(qrData)) {
     throw new Error(
@@ -70,86 +189,47 @@ export function parseAadhaarQR(qrData: string): AadhaarData {
     const decodedData = decompressByteArray(qrDataBytes);
     console.log('Decompressed to', decodedData.length, 'bytes');
 
-    // Step 3: Extract signed data (everything except last 256 bytes which is signature)
-    const signedData = decodedData.slice(0, decodedData.length - 256);
-    console.log('Signed data:', signedData.length, 'bytes');
-
-    // Step 4: Find delimiter indices (byte value 255)
-    const delimiterIndices: number[] = [];
-    for (let i = 0; i < signedData.length; i++) {
-      if (signedData[i] === 255) {
-        delimiterIndices.push(i);
-        if (delimiterIndices.length === 18) {
-          break; // We need 18 delimiters
-        }
-      }
-    }
-
-    console.log('Found', delimiterIndices.length, 'delimiters');
-
-    if (delimiterIndices.length < 7) {
-      throw new Error(
-        `Insufficient delimiters found: ${delimiterIndices.length}/18. ` +
-        'This might not be a valid mAadhaar QR code.'
-      );
-    }
-
-    // Step 5: Extract fields between delimiters
-    const extractField = (position: number): string => {
-      if (position >= delimiterIndices.length) {
-        return '';
-      }
-      const startIdx = delimiterIndices[position - 1] + 1;
-      const endIdx = delimiterIndices[position];
-      const bytes = signedData.slice(startIdx, endIdx) as Uint8Array;
-      return Array.from(bytes)
-        .map(b => String.fromCharCode(b as number))
-        .join('')
-        .trim();
-    };
+    // Step 3: Read the version header and the fields of that version's layout
+    const qr = readSecureQr(Uint8Array.from(decodedData));
+    const { fields } = qr;
+    console.log(`Secure QR ${qr.version}, email/mobile indicator ${qr.emailMobileIndicator}`);
 
-    // Extract Aadhaar last 4 digits (field 0-1)
-    const aadhaarBytes = signedData.slice(5, 9) as Uint8Array;
-    const aadhaarLast4Digits = Array.from(aadhaarBytes)
-      .map(b => String.fromCharCode(b as number))
-      .join('');
+    // Step 4: Verify the UIDAI signature before trusting any field
+    const signingKeyId = await verifyAadhaarSignature(
+      qr.signedData,
+      qr.signature,
+      referenceTimestamp(fields.referenceId)
+    );
 
-    // Extract name (field 3)
-    const name = extractField(FIELD_POSITIONS.NAME);
+    // The reference id starts with the last 4 digits of the Aadhaar number
+    const aadhaarLast4Digits = fields.referenceId.slice(0, 4);
 
-    // Extract DOB (field 4) - format: DD-MM-YYYY
-    const dobRaw = extractField(FIELD_POSITIONS.DOB);
-    const dobParts = dobRaw.split('-');
+    // DOB format: DD-MM-YYYY
+    const dobParts = fields.dob.split('-');
     const dateOfBirth = dobParts.length === 3
       ? `${dobParts[0]}/${dobParts[1]}/${dobParts[2]}`
-      : dobRaw.replace(/-/g, '/');
-
-    // Extract gender (field 5)
-    const gender = extractField(FIELD_POSITIONS.GENDER);
-
-    // Extract address (fields 6-10, concatenated)
-    let address = '';
-    for (let i = 6; i <= 10; i++) {
-      const part = extractField(i);
-      if (part) {
-        address += (address ? ', ' : '') + part;
-      }
-    }
-
-    // Extract pincode (field 11)
-    const pincode = extractField(FIELD_POSITIONS.PINCODE);
+      : fields.dob.replace(/-/g, '/');
 
-    // Extract state (field 13)
-    const state = extractField(FIELD_POSITIONS.STATE);
+    const address = [fields.careOf, fields.district, fields.landmark, fields.house, fields.location]
+      .filter(Boolean)
+      .join(', ');
 
     const parsedData: AadhaarData = {
-      name,
+      name: fields.name,
       dateOfBirth,
-      gender,
+      gender: fields.gender,
       address: address || 'Address not available',
       aadhaarLast4Digits,
-      pincode: pincode || undefined,
-      state: state || undefined,
+      pincode: fields.pincode || undefined,
+      state: fields.state || undefined,
+      photo: qr.photo.length > 0 ? bytesToBase64(qr.photo) : undefined,
+      source: 'secure-qr',
+      secureQrVersion: qr.version,
+      emailMobileIndicator: qr.emailMobileIndicator,
+      emailHash: qr.emailHash ? bytesToHex(qr.emailHash) : undefined,
+      mobileHash: qr.mobileHash ? bytesToHex(qr.mobileHash) : undefined,
+      trustLevel: 'uidai-signed',
+      signingKeyId,
     };
 
     console.log('Successfully parsed mAadhaar QR code!');
@@ -164,6 +244,8 @@ export function parseAadhaarQR(qrData: string): AadhaarData {
     return parsedData;
 
   } catch (error: any) {
+    // A bad signature is a distinct failure, not a parsing problem
+    if (error instanceof AadhaarSignatureError) throw error;
     console.error('Error parsing Aadhaar QR code:', error);
     throw new Error(
       `Failed to parse mAadhaar QR code: ${error.message}. ` +
@@ -190,3 +272,45 @@ export function isPhysicalCardQR(qrData: string): boolean {
     qrData.includes('<UidData')
   );
 }
+
+/**
+ * Parse any supported Aadhaar QR: the numeric Secure QR or the XML formats
+ */
+export async function parseAnyAadhaarQR(qrData: string): Promise<AadhaarData> {
+  if (isPhysicalCardQR(qrData)) {
+    return parseAadhaarXml(qrData);
+  }
+  return parseAadhaarQR(qrData);
+}
+
+/**
+ * Refuse data whose origin could not be checked; proofs and commitments are only
+ * generated from UIDAI-signed data
+ */
+export function requireUidaiSigned(data: AadhaarData): AadhaarData {
+  if (data.trustLevel !== 'uidai-signed') {
+    throw new AadhaarSignatureError(
+      'This QR code is an old unsigned format. Scan the Secure QR code from a recent Aadhaar card, eAadhaar PDF or the mAadhaar app.'
+    );
+  }
+  return data;
+}
+
+/**
+ * Stable key identifying the Aadhaar behind a QR, used to link it to one wallet
+ * Numeric QRs keep their original key; XML keys are a digest so no Aadhaar data is stored
+ */
+export async function aadhaarIdentifier(qrData: string): Promise<string> {
+  if (!isPhysicalCardQR(qrData)) {
+    return qrData.substring(0, 12);
+  }
+  return 'xml-' + await sha256Hex(new TextEncoder().encode(xmlAadhaarIdentity(qrData)));
+}
+
+/**
+ * The Aadhaar hash the circuits commit to: aadhaarIdentifier reduced to a field element, decimal
+ * Every flow must derive it from the same identifier, or the commitment and nullifier differ per flow
+ */
+export async function aadhaarFieldHash(qrData: string): Promise<string> {
+  return (await hashToField(await aadhaarIdentifier(qrData))).toString();
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { resolve } from 'node:path';
+import { wrapCodestream } from './aadhaarPhoto';
+import { decodeJpeg2000 } from './openJpeg';
+
+// Node reads the WASM from disk rather than from the URL Vite serves
+vi.mock('@cornerstonejs/codec-openjpeg/decodewasm?url', () => ({
+  default: resolve('node_modules/@cornerstonejs/codec-openjpeg/dist/openjpegwasm_decode.wasm'),
+}));
+
+// 32x32 lossless RGB gradient: red = 8x, green = 8y, blue = 128
+const GRADIENT_J2K = Uint8Array.from(atob(
+  '/0//UQAvAAAAAAAgAAAAIAAAAAAAAAAAAAAAIAAAACAAAAAAAAAAAAADBwEBBwEBBwEB/1IADAACAAEBBQQEAAH/XAATQEBISFBISFBISFBISFBISFD/ZAAl'
+  + 'AAFDcmVhdGVkIGJ5IE9wZW5KUEVHIHZlcnNpb24gMi41LjT/kAAKAAAAAADWAAH/k8fUBAV/x9QEAX+Aw+oCj7QIBD8EX6fgBAcPz8AKfgBABF8HD8Hz'
+  + 'hIfUBg0B/38LPYqj7QQADBfGf8faBx9oIA0CBQwXxn/A+QJB84QAIhoIXwN/3VGh9QKAAM/VUj/D6gWH1AoiGghdjwDP1VI/wHwiQPkDADahmr89pjRb'
+  + 'ENug+cOAPmKirYhuK8Hzh4PnDjahma5jo18+YqKtiG4rwDokB8IwX6fHh52sKUD/f6B8gUCdlqkBB8D5AsD5AoBfp8eIt52WqQEH/9k='
+), (c) => c.charCodeAt(0));
+
+describe('wrapCodestream', () => {
+  it('wraps a codestream in a JP2 file with its image header', () => {
+    const jp2 = wrapCodestream(GRADIENT_J2K)!;
+    const view = new DataView(jp2.buffer);
+    const ihdr = jp2.findIndex((_, i) => String.fromCharCode(...jp2.subarray(i, i + 4)) === 'ihdr');
+
+    expect(view.getUint32(ihdr + 4)).toBe(32);   // height
+    expect(view.getUint32(ihdr + 8)).toBe(32);   // width
+    expect(view.getUint16(ihdr + 12)).toBe(3);   // components
+    expect(jp2.subarray(jp2.length - GRADIENT_J2K.length)).toEqual(GRADIENT_J2K);
+  });
+
+  it('returns null for a truncated codestream instead of throwing', () => {
+    expect(wrapCodestream(GRADIENT_J2K.slice(0, 4))).toBeNull();
+    expect(wrapCodestream(GRADIENT_J2K.slice(0, 44))).toBeNull(); // SIZ without its component bytes
+  });
+});
+
+describe('decodeJpeg2000', () => {
+  it('decodes to RGBA pixels', async () => {
+    const image = await decodeJpeg2000(GRADIENT_J2K);
+    expect([image.width, image.height]).toEqual([32, 32]);
+
+    const pixel = (x: number, y: number) => Array.from(image.data.subarray((y * 32 + x) * 4, (y * 32 + x) * 4 + 4));
+    expect(pixel(0, 0)).toEqual([0, 0, 128, 255]);
+    expect(pixel(5, 9)).toEqual([40, 72, 128, 255]);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Aadhaar Photo
+ * Turns the holder photo embedded in an Aadhaar QR into a displayable image, on device only
+ *
+ * Secure QR photos are JPEG2000, usually a bare codestream. Browsers that decode JPEG2000
+ * natively (Safari) only accept the JP2 file format, so bare codestreams are wrapped in a
+ * minimal JP2 container first. Other browsers fall back to the bundled OpenJPEG decoder
+ * (see openJpeg.ts), which registerJpeg2000Decoder can replace.
+ */
+
+import { decodeJpeg2000 } from './openJpeg';
+
+export type PhotoDecoder = (codestream: Uint8Array) => Promise<ImageBitmap | null>;
+
+const JP2_SIGNATURE = [0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20, 0x0d, 0x0a, 0x87, 0x0a];
+
+const openJpegDecoder: PhotoDecoder = async (codestream) => {
+  const image = await decodeJpeg2000(codestream);
+  return createImageBitmap(new ImageData(image.data, image.width, image.height));
+};
+
+let jpeg2000Decoder: PhotoDecoder | null = openJpegDecoder;
+
+/**
+ * Use another JPEG2000 decoder where the browser has no native support, or none (null)
+ */
+export function registerJpeg2000Decoder(decoder: PhotoDecoder | null): void {
+  jpeg2000Decoder = decoder;
+}
+
+type PhotoFormat = 'jpeg' | 'jp2' | 'j2k';
+
+function detectFormat(bytes: Uint8Array): PhotoFormat | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (bytes[0] === 0xff && bytes[1] === 0x4f && bytes[2] === 0xff && bytes[3] === 0x51) return 'j2k';
+  if (JP2_SIGNATURE.every((b, i) => bytes[i] === b)) return 'jp2';
+  return null;
+}
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const length = 8 + payload.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  let offset = 8;
+  for (const part of payload) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Wrap a bare JPEG2000 codestream in a JP2 file, using the image header (SIZ marker)
+ * @returns null when the codestream is too short to hold its SIZ marker
+ */
+export function wrapCodestream(codestream: Uint8Array): Uint8Array | null {
+  // SOC (FF4F) is followed directly by SIZ (FF51): 38 fixed bytes, then 3 per component
+  if (codestream.length < 4 + 38) return null;
+  const siz = new DataView(codestream.buffer, codestream.byteOffset + 4, codestream.length - 4);
+  const components = siz.getUint16(36);                 // Csiz
+  if (components === 0 || siz.byteLength < 38 + components * 3) return null;
+
+  const width = siz.getUint32(4) - siz.getUint32(12);   // Xsiz - XOsiz
+  const height = siz.getUint32(8) - siz.getUint32(16);  // Ysiz - YOsiz
+  const depths = Array.from({ length: components }, (_, i) => siz.getUint8(38 + i * 3)); // Ssiz
+  const bpc = depths.every((d) => d === depths[0]) ? depths[0] : 0xff;
+
+  const ihdr = new Uint8Array(14);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, height);
+  ihdrView.setUint32(4, width);
+  ihdrView.setUint16(8, components);
+  ihdr[10] = bpc;
+  ihdr[11] = 7; // Compression type: JPEG2000
+
+  // Enumerated colourspace: sRGB (16) or greyscale (17)
+  const colr = new Uint8Array([1, 0, 0, 0, 0, 0, components >= 3 ? 16 : 17]);
+
+  const ftyp = new Uint8Array([0x6a, 0x70, 0x32, 0x20, 0, 0, 0, 0, 0x6a, 0x70, 0x32, 0x20]);
+  const parts = [
+    new Uint8Array(JP2_SIGNATURE),
+    box('ftyp', ftyp),
+    box('jp2h', box('ihdr', ihdr), box('colr', colr)),
+    box('jp2c', codestream),
+  ];
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * The codestream inside a JP2 file (its jp2c box)
+ */
+function unwrapCodestream(jp2: Uint8Array): Uint8Array | null {
+  const view = new DataView(jp2.buffer, jp2.byteOffset, jp2.length);
+  let offset = 0;
+  while (offset + 8 <= jp2.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...jp2.subarray(offset + 4, offset + 8));
+    // Length 0 means the box runs to the end of the file
+    const end = length === 0 ? jp2.length : offset + length;
+    if (length !== 0 && (length < 8 || end > jp2.length)) return null;
+    if (type === 'jp2c') return jp2.subarray(offset + 8, end);
+    offset = end;
+  }
+  return null;
+}
+
+async function decodeNative(bytes: Uint8Array, type: string): Promise<ImageBitmap | null> {
+  try {
+    return await createImageBitmap(new Blob([bytes as BlobPart], { type }));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode a base64 photo from AadhaarData to a PNG data URL
+ * @returns null when the format is unknown or no decoder in this browser can read it
+ */
+export async function decodeAadhaarPhoto(base64: string): Promise<string | null> {
+  let bytes: Uint8Array;
+  try {
+    bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+
+  const format = detectFormat(bytes);
+  if (!format) {
+    console.warn('Aadhaar photo is in an unknown format');
+    return null;
+  }
+
+  let bitmap: ImageBitmap | null;
+  if (format === 'jpeg') {
+    bitmap = await decodeNative(bytes, 'image/jpeg');
+  } else {
+    const jp2 = format === 'j2k' ? wrapCodestream(bytes) : bytes;
+    const codestream = format === 'j2k' ? bytes : unwrapCodestream(bytes);
+    if (!jp2 || !codestream) {
+      console.warn('Aadhaar photo is a truncated JPEG2000 image');
+      return null;
+    }
+    bitmap = await decodeNative(jp2, 'image/jp2');
+    if (!bitmap && jpeg2000Decoder) {
+      bitmap = await jpeg2000Decoder(codestream).catch((error) => {
+        console.warn('JPEG2000 decoder failed:', error);
+        return null;
+      });
+    }
+  }
+  if (!bitmap) {
+    console.log('Aadhaar photo cannot be decoded in this browser');
+    return null;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,53 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  AadhaarSignatureError,
+  loadAadhaarPublicKeys,
+  verifyAadhaarSignature,
+} from './aadhaarSignature';
+import { TEST_KEY_ID, testAadhaarSigner } from '../test/aadhaarTestKey';
+import type { FixtureSigner } from '../test/aadhaarTestKey';
+
+// Trust the fixture key alongside the bundled UIDAI keys
+vi.mock('../../public/aadhaar/uidai-keys.json', async (importOriginal) =>
+  (await import('../test/aadhaarTestKey')).withTestAadhaarKey(await importOriginal()));
+
+const RSA = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+
+let sign: FixtureSigner;
+
+beforeAll(async () => {
+  sign = await testAadhaarSigner();
+});
+
+describe('UIDAI key registry', () => {
+  it('bundles importable RSA-2048 keys with validity dates', async () => {
+    const bundled = loadAadhaarPublicKeys().filter((key) => key.id !== TEST_KEY_ID);
+    expect(bundled.map((key) => key.id)).toEqual(['uidai-offline-2021', 'uidai-offline-2024']);
+
+    for (const key of bundled) {
+      expect(new Date(key.validFrom!).getTime()).not.toBeNaN();
+      const der = Uint8Array.from(atob(key.publicKey.replace(/-----[A-Z ]+-----|\s/g, '')), (c) => c.charCodeAt(0));
+      const imported = await crypto.subtle.importKey('spki', der as BufferSource, RSA, true, ['verify']);
+      expect((imported.algorithm as RsaHashedKeyAlgorithm).modulusLength).toBe(2048);
+    }
+  });
+});
+
+describe('verifyAadhaarSignature', () => {
+  const data = new TextEncoder().encode('2|test|signed QR fields');
+
+  it('accepts data signed by a trusted key', async () => {
+    expect(await verifyAadhaarSignature(data, await sign(data))).toBe(TEST_KEY_ID);
+  });
+
+  it('rejects tampered data', async () => {
+    const signature = await sign(data);
+    const tampered = data.slice();
+    tampered[0] ^= 1;
+    await expect(verifyAadhaarSignature(tampered, signature)).rejects.toBeInstanceOf(AadhaarSignatureError);
+  });
+
+  it('rejects a truncated signature', async () => {
+    await expect(verifyAadhaarSignature(data, (await sign(data)).slice(1))).rejects.toThrow(/256-byte signature/);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Aadhaar Signature
+ * Checks the UIDAI RSA signature on Secure QR data (RSA-2048, PKCS#1 v1.5, SHA-256)
+ * and on signed Aadhaar XML (see xmlSignature.ts), which may still use SHA-1
+ *
+ * Public keys come from public/aadhaar/uidai-keys.json so a rotated UIDAI key ships
+ * without code edits, only a rebuild. Each key may carry a validity window; a QR is checked
+ * against the keys valid when it was generated, or against every key when its timestamp is unknown.
+ * Keys are SPKI PEM, e.g. from the UIDAI certificate: openssl x509 -pubkey -noout -in <cert>
+ *
+ * The registry is bundled at build time rather than fetched, so the trust root cannot be
+ * changed at runtime by whoever serves the app or by an environment setting.
+ */
+
+import bundledRegistry from '../../public/aadhaar/uidai-keys.json';
+
+export const AADHAAR_SIGNATURE_LENGTH = 256;
+
+export type AadhaarSignatureHash = 'SHA-256' | 'SHA-1';
+
+export interface AadhaarPublicKey {
+  id: string;
+  publicKey: string;   // SPKI PEM
+  validFrom?: string;  // ISO date; omitted means no lower bound
+  validUntil?: string; // ISO date; omitted means still in use
+  source?: string;     // Where the key was taken from
+}
+
+interface AadhaarKeyRegistry {
+  keys: AadhaarPublicKey[];
+}
+
+/**
+ * Raised when Aadhaar QR data is not signed by a known UIDAI key
+ */
+export class AadhaarSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AadhaarSignatureError';
+  }
+}
+
+const importedKeys = new Map<string, Promise<CryptoKey>>();
+let registryKeys: AadhaarPublicKey[] | null = null;
+
+function validateKeyRegistry(registry: AadhaarKeyRegistry): AadhaarPublicKey[] {
+  if (!registry || !Array.isArray(registry.keys)) {
+    throw new Error('Invalid Aadhaar key registry: missing keys');
+  }
+  for (const key of registry.keys) {
+    if (!key.id || typeof key.publicKey !== 'string') {
+      throw new Error(`Invalid Aadhaar key registry entry: ${key.id || 'unknown'}`);
+    }
+  }
+  return registry.keys;
+}
+
+/**
+ * The bundled UIDAI key registry, validated on first use
+ */
+export function loadAadhaarPublicKeys(): AadhaarPublicKey[] {
+  if (!registryKeys) {
+    registryKeys = validateKeyRegistry(bundledRegistry as AadhaarKeyRegistry);
+  }
+  return registryKeys;
+}
+
+function pemToDer(pem: string): Uint8Array {
+  const base64 = pem
+    .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '')
+    .replace(/\s+/g, '');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function importPublicKey(key: AadhaarPublicKey, hash: AadhaarSignatureHash): Promise<CryptoKey> {
+  const cacheKey = `${key.id}:${hash}`;
+  let imported = importedKeys.get(cacheKey);
+  if (!imported) {
+    imported = crypto.subtle.importKey(
+      'spki',
+      pemToDer(key.publicKey) as BufferSource,
+      { name: 'RSASSA-PKCS1-v1_5', hash },
+      false,
+      ['verify']
+    );
+    importedKeys.set(cacheKey, imported);
+  }
+  return imported;
+}
+
+/**
+ * Generation time from an Aadhaar reference id (last 4 digits + YYYYMMDDHHMMSSsss)
+ */
+export function referenceTimestamp(referenceId: string): Date | undefined {
+  const match = referenceId.match(/^\d{4}(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  // Timestamps are Indian Standard Time
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}+05:30`);
+}
+
+function validAt(key: AadhaarPublicKey, when: Date): boolean {
+  if (key.validFrom && when < new Date(key.validFrom)) return false;
+  if (key.validUntil && when > new Date(key.validUntil)) return false;
+  return true;
+}
+
+/**
+ * Verify the signature over the signed QR data
+ * @param signedAt - When the QR was generated, to pick keys valid at that time
+ * @returns Id of the key that produced the signature
+ */
+export async function verifyAadhaarSignature(
+  signedData: Uint8Array,
+  signature: Uint8Array,
+  signedAt?: Date,
+  hash: AadhaarSignatureHash = 'SHA-256'
+): Promise<string> {
+  if (signature.length !== AADHAAR_SIGNATURE_LENGTH) {
+    throw new AadhaarSignatureError(`Expected a ${AADHAAR_SIGNATURE_LENGTH}-byte signature, got ${signature.length} bytes`);
+  }
+
+  const keys = loadAadhaarPublicKeys();
+  const candidates = signedAt && !isNaN(signedAt.getTime())
+    ? keys.filter((key) => validAt(key, signedAt))
+    : keys;
+  if (candidates.length === 0) {
+    throw new AadhaarSignatureError('No UIDAI public key is configured for this QR code');
+  }
+
+  for (const key of candidates) {
+    try {
+      const valid = await crypto.subtle.verify(
+        'RSASSA-PKCS1-v1_5',
+        await importPublicKey(key, hash),
+        signature as BufferSource,
+        signedData as BufferSource
+      );
+      if (valid) {
+        console.log('🔏 Aadhaar QR signed by', key.id);
+        return key.id;
+      }
+    } catch (error) {
+      console.warn(`Could not check Aadhaar signature with key ${key.id}:`, error);
+    }
+  }
+
+  throw new AadhaarSignatureError(
+    'The signature does not match any UIDAI public key. The data may have been altered or forged.'
+  );
+}
@@ -0,0 +1,117 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { parseAadhaarXml, xmlAadhaarIdentity } from './aadhaarXmlParser';
+import { requireUidaiSigned } from './aadhaarParser';
+import { AadhaarSignatureError } from './aadhaarSignature';
+import { canonicalizeXml } from './xmlSignature';
+import { TEST_KEY_ID, testAadhaarSigner } from '../test/aadhaarTestKey';
+import type { FixtureSigner } from '../test/aadhaarTestKey';
+
+// Trust the fixture key alongside the bundled UIDAI keys
+vi.mock('../../public/aadhaar/uidai-keys.json', async (importOriginal) =>
+  (await import('../test/aadhaarTestKey')).withTestAadhaarKey(await importOriginal()));
+
+const DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+
+const SIGNATURE = `<Signature xmlns="${DSIG_NS}"><SignedInfo>`
+  + '<CanonicalizationMethod Algorithm="http://www.w3.org/TR/2001/REC-xml-c14n-20010315"/>'
+  + '<SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"/>'
+  + '<Reference URI=""><Transforms>'
+  + `<Transform Algorithm="${DSIG_NS}enveloped-signature"/>`
+  + '</Transforms><DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"/><DigestValue/></Reference>'
+  + '</SignedInfo><SignatureValue/></Signature>';
+
+const UID_DATA = '<UidData>'
+  + '<Poi dob="15-08-1990" gender="F" name="Asha Verma"/>'
+  + '<Poa careof="C/O Ravi" dist="Pune" pc="411001" state="Maharashtra" vtc="Pune"/>'
+  + '<Pht>AAAA</Pht>'
+  + '</UidData>';
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+let sign: FixtureSigner;
+
+beforeAll(async () => {
+  sign = await testAadhaarSigner();
+});
+
+/**
+ * Sign offline KYC XML as UIDAI does: enveloped, inclusive C14N, RSA-SHA256
+ */
+async function signedKyc(body: string = UID_DATA + SIGNATURE): Promise<Document> {
+  const doc = new DOMParser().parseFromString(
+    `<OfflinePaperlessKyc referenceId="123420240101120000000">${body}</OfflinePaperlessKyc>`,
+    'application/xml'
+  );
+  const signature = doc.getElementsByTagNameNS(DSIG_NS, 'Signature')[0];
+  const signedInfo = signature.getElementsByTagNameNS(DSIG_NS, 'SignedInfo')[0];
+
+  const content = new TextEncoder().encode(canonicalizeXml(doc.documentElement, 'inclusive', signature));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', content));
+  signedInfo.getElementsByTagNameNS(DSIG_NS, 'DigestValue')[0].textContent = bytesToBase64(digest);
+
+  const signatureValue = await sign(new TextEncoder().encode(canonicalizeXml(signedInfo, 'inclusive')));
+  signature.getElementsByTagNameNS(DSIG_NS, 'SignatureValue')[0].textContent = bytesToBase64(signatureValue);
+  return doc;
+}
+
+const serialize = (doc: Document) => new XMLSerializer().serializeToString(doc);
+
+describe('parseAadhaarXml', () => {
+  it('reads UIDAI-signed offline KYC', async () => {
+    const data = await parseAadhaarXml(serialize(await signedKyc()));
+    expect(data).toMatchObject({
+      name: 'Asha Verma',
+      dateOfBirth: '15/08/1990',
+      gender: 'F',
+      aadhaarLast4Digits: '1234',
+      pincode: '411001',
+      photo: 'AAAA',
+      trustLevel: 'uidai-signed',
+      signingKeyId: TEST_KEY_ID,
+    });
+  });
+
+  it('rejects altered content', async () => {
+    const doc = await signedKyc();
+    doc.getElementsByTagName('Poi')[0].setAttribute('dob', '15-08-1950');
+    await expect(parseAadhaarXml(serialize(doc))).rejects.toBeInstanceOf(AadhaarSignatureError);
+  });
+
+  it('rejects a signature wrapping forged data in an Object', async () => {
+    const doc = await signedKyc();
+    const object = doc.createElementNS(DSIG_NS, 'Object');
+    object.innerHTML = '<UidData xmlns=""><Poi dob="01-01-1950" gender="M" name="Forged"/></UidData>';
+    doc.getElementsByTagNameNS(DSIG_NS, 'Signature')[0].appendChild(object);
+
+    await expect(parseAadhaarXml(serialize(doc))).rejects.toThrow(/Object content/);
+  });
+
+  it('ignores identity sections outside the signed UidData', async () => {
+    // The signature comes first, so a document-wide lookup would find its Poi before the signed one
+    const doc = await signedKyc(SIGNATURE + UID_DATA);
+    const keyInfo = doc.createElementNS(DSIG_NS, 'KeyInfo');
+    keyInfo.innerHTML = '<Poi xmlns="" dob="01-01-1950" gender="M" name="Forged"/><Pht xmlns="">BBBB</Pht>';
+    doc.getElementsByTagNameNS(DSIG_NS, 'Signature')[0].appendChild(keyInfo);
+    const xml = serialize(doc);
+
+    const data = await parseAadhaarXml(xml);
+    expect(data.name).toBe('Asha Verma');
+    expect(data.photo).toBe('AAAA');
+    expect(xmlAadhaarIdentity(xml)).toBe('1234|ASHA VERMA|15-08-1990');
+  });
+
+  it('rejects duplicate identity sections', async () => {
+    const doc = await signedKyc(
+      UID_DATA.replace('<Poi', '<Poi dob="01-01-1950" gender="M" name="Second"/><Poi') + SIGNATURE
+    );
+    await expect(parseAadhaarXml(serialize(doc))).rejects.toThrow(/more than one Poi/);
+  });
+
+  it('returns print-letter XML as unverified, which cannot be used for proofs', async () => {
+    const data = await parseAadhaarXml('<PrintLetterBarcodeData uid="123456789012" name="Asha Verma" dob="15/08/1990" gender="F"/>');
+    expect(data.trustLevel).toBe('unverified');
+    expect(() => requireUidaiSigned(data)).toThrow(AadhaarSignatureError);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Aadhaar XML QR Parser
+ * Reads the XML QR formats from physical Aadhaar cards and eAadhaar PDFs into AadhaarData
+ *
+ *   <PrintLetterBarcodeData uid=".." name=".." dob=".." .../>   Old cards; unsigned, so unverified
+ *   <OfflinePaperlessKyc referenceId=".."><UidData>..</UidData>  Signed by UIDAI (enveloped XML-DSig)
+ *     <Signature>..</Signature></OfflinePaperlessKyc>
+ *
+ * Signed fields are only read from the Poi, Poa and Pht children of the root's UidData:
+ * anything elsewhere, e.g. inside the Signature, is not covered by the signed digest.
+ */
+
+import type { AadhaarData } from './aadhaarParser';
+import { AadhaarSignatureError, referenceTimestamp } from './aadhaarSignature';
+import { verifyXmlSignature } from './xmlSignature';
+
+function parseXml(xml: string): Document {
+  // Scanners sometimes prepend bytes before the declaration
+  const start = xml.indexOf('<');
+  const doc = new DOMParser().parseFromString(start > 0 ? xml.slice(start) : xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The QR code does not contain well-formed XML');
+  }
+  return doc;
+}
+
+/**
+ * Normalize the date formats found in Aadhaar XML to DD/MM/YYYY
+ */
+function normalizeDate(dob: string | null, yob: string | null): string {
+  const value = (dob ?? '').trim();
+  let match = value.match(/^(\d{2})[-/](\d{2})[-/](\d{4})$/);
+  if (match) return `${match[1]}/${match[2]}/${match[3]}`;
+  match = value.match(/^(\d{4})[-/](\d{2})[-/](\d{2})$/);
+  if (match) return `${match[3]}/${match[2]}/${match[1]}`;
+
+  // Only the year is printed on some cards; the last day of it never overstates age
+  if (yob && /^\d{4}$/.test(yob.trim())) return `31/12/${yob.trim()}`;
+  throw new Error('The QR code has no date of birth');
+}
+
+function normalizeGender(gender: string | null): string {
+  return (gender ?? '').trim().charAt(0).toUpperCase();
+}
+
+function joinAddress(parts: Array<string | null>): string {
+  return parts.map((part) => part?.trim()).filter(Boolean).join(', ');
+}
+
+function parsePrintLetter(el: Element): AadhaarData {
+  const attr = (name: string) => el.getAttribute(name);
+  const uid = (attr('uid') ?? '').replace(/\D/g, '');
+  if (uid.length < 4) throw new Error('The QR code has no Aadhaar number');
+
+  return {
+    name: (attr('name') ?? '').trim(),
+    dateOfBirth: normalizeDate(attr('dob'), attr('yob')),
+    gender: normalizeGender(attr('gender')),
+    address: joinAddress([attr('co'), attr('house'), attr('street'), attr('lm'), attr('loc'), attr('vtc'), attr('dist')])
+      || 'Address not available',
+    aadhaarLast4Digits: uid.slice(-4),
+    pincode: attr('pc') || undefined,
+    state: attr('state') || undefined,
+    source: 'print-letter-xml',
+    trustLevel: 'unverified',
+  };
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter((el) => el.localName === localName);
+}
+
+/**
+ * The signed sections of offline KYC XML, each allowed at most once
+ */
+function offlineKycSections(root: Element): { poi?: Element; poa?: Element; pht?: Element } {
+  const uidData = childElements(root, 'UidData');
+  if (uidData.length !== 1) throw new Error('The QR code must contain exactly one UidData section');
+
+  const section = (localName: string) => {
+    const found = childElements(uidData[0], localName);
+    if (found.length > 1) throw new Error(`The QR code has more than one ${localName} section`);
+    return found[0];
+  };
+  return { poi: section('Poi'), poa: section('Poa'), pht: section('Pht') };
+}
+
+async function parseOfflineKyc(doc: Document): Promise<AadhaarData> {
+  const root = doc.documentElement;
+  const { poi, poa, pht } = offlineKycSections(root);
+  if (!poi) throw new Error('The QR code has no identity (Poi) section');
+
+  const referenceId = root.getAttribute('referenceId') ?? '';
+  const signingKeyId = await verifyXmlSignature(doc, referenceTimestamp(referenceId));
+
+  const poaAttr = (name: string) => poa?.getAttribute(name) ?? null;
+  const photo = pht?.textContent?.replace(/\s+/g, '');
+
+  return {
+    name: (poi.getAttribute('name') ?? '').trim(),
+    dateOfBirth: normalizeDate(poi.getAttribute('dob'), null),
+    gender: normalizeGender(poi.getAttribute('gender')),
+    address: joinAddress([
+      poaAttr('careof'), poaAttr('house'), poaAttr('street'), poaAttr('landmark'),
+      poaAttr('loc'), poaAttr('vtc'), poaAttr('dist'),
+    ]) || 'Address not available',
+    aadhaarLast4Digits: referenceId.slice(0, 4),
+    pincode: poaAttr('pc') || undefined,
+    state: poaAttr('state') || undefined,
+    photo: photo || undefined,
+    source: 'signed-xml',
+    trustLevel: 'uidai-signed',
+    signingKeyId,
+  };
+}
+
+/**
+ * Parse an XML Aadhaar QR; signed XML is rejected with AadhaarSignatureError if the
+ * signature does not verify, unsigned print-letter XML is returned as unverified
+ */
+export async function parseAadhaarXml(xml: string): Promise<AadhaarData> {
+  console.log('Parsing Aadhaar XML QR code...');
+  const doc = parseXml(xml);
+  const root = doc.documentElement;
+
+  if (root.localName === 'PrintLetterBarcodeData') {
+    const data = parsePrintLetter(root);
+    console.warn('⚠️ Print-letter Aadhaar QR is unsigned; identity data is unverified');
+    return data;
+  }
+
+  if (childElements(root, 'UidData').length > 0) {
+    if (doc.getElementsByTagNameNS('http://www.w3.org/2000/09/xmldsig#', 'Signature').length === 0) {
+      throw new AadhaarSignatureError('This Aadhaar XML has no UIDAI signature');
+    }
+    return parseOfflineKyc(doc);
+  }
+
+  throw new Error(`Unrecognized Aadhaar XML format: <${root.localName}>`);
+}
+
+/**
+ * Identity fields that stay the same across QRs of one Aadhaar, for linking it to a wallet
+ */
+export function xmlAadhaarIdentity(xml: string): string {
+  const doc = parseXml(xml);
+  const root = doc.documentElement;
+
+  if (root.localName === 'PrintLetterBarcodeData') {
+    return `uid:${(root.getAttribute('uid') ?? '').replace(/\D/g, '')}`;
+  }
+
+  const { poi } = offlineKycSections(root);
+  return [
+    (root.getAttribute('referenceId') ?? '').slice(0, 4),
+    poi?.getAttribute('name')?.trim().toUpperCase() ?? '',
+    poi?.getAttribute('dob') ?? '',
+  ].join('|');
+}
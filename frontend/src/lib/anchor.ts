@@ -7,6 +7,11 @@ import { Connection, PublicKey, SystemProgram } from '@solana/web3.js';
 import type { AnchorWallet } from '@solana/wallet-adapter-react';
 import type { Contracts } from './idl';
 import IDL_JSON from './idl.json';
+import { getCircuit } from './circuitRegistry';
+import type { CircuitId } from './circuitRegistry';
+import { encodePublicInputs, serializeGroth16Proof } from './groth16Serializer';
+import { loadVerificationKey } from './artifactCache';
+import type { SerializeProofOptions } from './groth16Serializer';
 
 /**
  * Create an Anchor provider from wallet and connection
@@ -69,6 +74,39 @@ export function getIdentityPDA(
   );
 }
 
+// Identity account size: discriminator, owner, commitment, merkle root,
+// is_verified, verification_timestamp, attributes_verified, bump
+const IDENTITY_ACCOUNT_SIZE = 8 + 32 + 32 + 32 + 1 + 8 + 4 + 1;
+
+// Offset of verification_timestamp (i64, little-endian), set when the identity is registered
+const REGISTERED_AT_OFFSET = 8 + 32 + 32 + 32 + 1;
+
+/**
+ * Fetch every registered identity commitment from the program's identity accounts
+ * Commitments come back in registration order (ties broken by account address), the
+ * order the registry tree appends them in; getProgramAccounts itself has no order
+ * Pass `exclude` to leave out one owner's account (e.g. when they re-register)
+ */
+export async function fetchRegisteredCommitments(
+  connection: Connection,
+  exclude?: PublicKey,
+  programId: PublicKey = new PublicKey(IDL_JSON.address)
+): Promise<bigint[]> {
+  const accounts = await connection.getProgramAccounts(programId, {
+    filters: [{ dataSize: IDENTITY_ACCOUNT_SIZE }],
+  });
+
+  const registeredAt = (data: Buffer) => data.readBigInt64LE(REGISTERED_AT_OFFSET);
+
+  return accounts
+    .filter(({ account }) => !exclude || !new PublicKey(account.data.subarray(8, 40)).equals(exclude))
+    .sort((a, b) => {
+      const order = registeredAt(a.account.data) - registeredAt(b.account.data);
+      return order !== 0n ? (order < 0n ? -1 : 1) : a.pubkey.toBase58().localeCompare(b.pubkey.toBase58());
+    })
+    .map(({ account }) => BigInt('0x' + account.data.subarray(40, 72).toString('hex')));
+}
+
 /**
  * Convert hex string to Uint8Array[32]
  */
@@ -94,7 +132,7 @@ export function hexToBytes32(hex: string): number[] {
 export async function registerIdentity(
   program: Program<Contracts>,
   userPublicKey: PublicKey,
-  identityCommitment: string,
+  identityCommitment: string, // Hex Poseidon commitment from commitment.ts
   merkleRoot: string
 ): Promise<string> {
   const programId = program.programId;
@@ -207,26 +245,22 @@ export async function verifyIdentity(
   program: Program<Contracts>,
   userPublicKey: PublicKey,
   proof: any,
-  publicInputs: any[],
-  attributeType: 'age' | 'nationality' | 'uniqueness'
+  publicInputs: string[],
+  attributeType: CircuitId,
+  proofOptions: SerializeProofOptions = {}
 ): Promise<string> {
   const programId = program.programId;
   
   // Get identity PDA
   const [identityPda] = getIdentityPDA(userPublicKey, programId);
   
-  // Map attribute type to u8
-  const attributeTypeMap: Record<string, number> = {
-    age: 1,
-    nationality: 2,
-    uniqueness: 4,
-  };
-  
-  const attributeTypeByte = attributeTypeMap[attributeType];
+  // Attribute type u8 comes from the circuit manifest
+  const circuit = await getCircuit(attributeType);
+  const attributeTypeByte = circuit.attributeBit;
   
   // Serialize proof and public inputs
-  const proofBytes = serializeProof(proof);
-  const publicInputBytes = serializePublicInputs(publicInputs);
+  const proofBytes = serializeGroth16Proof(proof, proofOptions);
+  const publicInputBytes = encodePublicInputs(publicInputs, await loadVerificationKey(circuit));
   
   // Send transaction - Use snake_case method names from IDL
   // Note: This function is for third-party verification, not for initial registration
@@ -280,32 +314,18 @@ export async function fetchIdentityAccount(
 }
 
 /**
- * Serialize Groth16 proof for Solana
+ * Read a wallet's registered identity commitment, without a wallet or provider
+ * `commitment` is null when the wallet has no identity account
  */
-function serializeProof(_proof: any): Uint8Array {
-  // Convert proof to bytes format expected by Solana program
-  // This is a simplified version - adjust based on your groth16-solana implementation
-  const buffer = Buffer.alloc(256); // Groth16 proofs are typically 256 bytes
-  
-  // Serialize pi_a (2 field elements)
-  // Serialize pi_b (6 field elements)
-  // Serialize pi_c (2 field elements)
-  // Total: 10 field elements * 32 bytes = 320 bytes (compressed to 256)
-  
-  // For now, return a placeholder - implement actual serialization based on groth16-solana
-  console.warn(' Proof serialization needs proper implementation');
-  return new Uint8Array(buffer);
-}
-
-/**
- * Serialize public inputs for Solana
- */
-function serializePublicInputs(publicInputs: any[]): Uint8Array {
-  // Convert public inputs to bytes
-  const buffers = publicInputs.map((input) => {
-    const hex = typeof input === 'string' ? input : input.toString(16);
-    return Buffer.from(hexToBytes32(hex));
-  });
-  
-  return Buffer.concat(buffers);
+export async function fetchIdentityCommitment(
+  connection: Connection,
+  owner: PublicKey,
+  programId: PublicKey = new PublicKey(IDL_JSON.address)
+): Promise<{ commitment: bigint | null; address: string }> {
+  const [identityPda] = getIdentityPDA(owner, programId);
+  const accountInfo = await connection.getAccountInfo(identityPda);
+  const commitment = accountInfo && accountInfo.data.length === IDENTITY_ACCOUNT_SIZE
+    ? BigInt('0x' + accountInfo.data.subarray(40, 72).toString('hex'))
+    : null;
+  return { commitment, address: identityPda.toString() };
 }
@@ -0,0 +1,145 @@
+/**
+ * Circuit Artifact Cache
+ * Keeps verified circuit artifacts in Cache Storage so proofs work offline once warm
+ * One cache per manifest version; caches for other versions are evicted
+ */
+
+import { listCircuits, loadCircuitManifest } from './circuitRegistry';
+import type { ArtifactKind, CircuitDefinition, VerificationKey } from './circuitRegistry';
+import { ArtifactIntegrityError, assertArtifactIntegrity, fetchVerifiedArtifact } from './artifactIntegrity';
+
+const CACHE_PREFIX = 'solstice-circuits-';
+
+// Parsed verification keys, so repeated local verification skips the download and hash
+const vkeyMemo = new Map<string, Promise<VerificationKey>>();
+
+function cacheAvailable(): boolean {
+  return typeof caches !== 'undefined';
+}
+
+function cacheNameFor(manifestVersion: string): string {
+  return `${CACHE_PREFIX}${manifestVersion}`;
+}
+
+/**
+ * Delete artifact caches left behind by other manifest versions
+ */
+export async function evictStaleArtifactCaches(currentVersion: string): Promise<void> {
+  if (!cacheAvailable()) return;
+
+  const keep = cacheNameFor(currentVersion);
+  for (const name of await caches.keys()) {
+    if (name.startsWith(CACHE_PREFIX) && name !== keep) {
+      console.log('🗑️ Evicting stale circuit cache:', name);
+      await caches.delete(name);
+    }
+  }
+}
+
+async function readCached(
+  cache: Cache,
+  circuit: CircuitDefinition,
+  kind: ArtifactKind
+): Promise<Uint8Array | null> {
+  const url = circuit.artifacts[kind];
+  const response = await cache.match(url);
+  if (!response) return null;
+
+  const data = new Uint8Array(await response.arrayBuffer());
+  try {
+    await assertArtifactIntegrity(circuit, kind, data);
+    return data;
+  } catch (error) {
+    if (!(error instanceof ArtifactIntegrityError)) throw error;
+    // Corrupted entry: drop it and let the caller download a fresh copy
+    console.warn(`Cached ${circuit.id} ${kind} failed its integrity check, refetching`);
+    await cache.delete(url);
+    return null;
+  }
+}
+
+/**
+ * Load a verified circuit artifact, preferring the local cache over the network
+ */
+export async function loadArtifact(circuit: CircuitDefinition, kind: ArtifactKind): Promise<Uint8Array> {
+  if (!cacheAvailable()) {
+    return fetchVerifiedArtifact(circuit, kind);
+  }
+
+  const { version } = await loadCircuitManifest();
+  const cache = await caches.open(cacheNameFor(version));
+
+  const cached = await readCached(cache, circuit, kind);
+  if (cached) return cached;
+
+  const data = await fetchVerifiedArtifact(circuit, kind);
+  try {
+    await cache.put(circuit.artifacts[kind], new Response(data as BodyInit));
+  } catch (error) {
+    // Quota errors only cost us the offline copy
+    console.warn(`Could not cache ${circuit.id} ${kind}:`, error);
+  }
+  return data;
+}
+
+/**
+ * Whether a verified copy of an artifact is in the local cache, without reading it
+ * Entries are hash-checked before they are stored and again when loaded
+ */
+export async function hasCachedArtifact(circuit: CircuitDefinition, kind: ArtifactKind): Promise<boolean> {
+  if (!cacheAvailable()) return false;
+
+  const { version } = await loadCircuitManifest();
+  const cache = await caches.open(cacheNameFor(version));
+  return (await cache.match(circuit.artifacts[kind])) !== undefined;
+}
+
+/**
+ * Load the wasm and zkey a proof needs as verified buffers
+ */
+export async function loadProvingArtifacts(
+  circuit: CircuitDefinition
+): Promise<{ wasm: Uint8Array; zkey: Uint8Array }> {
+  const [wasm, zkey] = await Promise.all([
+    loadArtifact(circuit, 'wasm'),
+    loadArtifact(circuit, 'zkey'),
+  ]);
+  return { wasm, zkey };
+}
+
+/**
+ * Load and parse a circuit's verification key (memoized per circuit version)
+ */
+export function loadVerificationKey(circuit: CircuitDefinition): Promise<VerificationKey> {
+  const key = `${circuit.id}@${circuit.version}:${circuit.sha256.vkey}`;
+  let vkey = vkeyMemo.get(key);
+  if (!vkey) {
+    vkey = loadArtifact(circuit, 'vkey')
+      .then((data) => JSON.parse(new TextDecoder().decode(data)))
+      .catch((error) => {
+        vkeyMemo.delete(key);
+        throw error;
+      });
+    vkeyMemo.set(key, vkey);
+  }
+  return vkey;
+}
+
+/**
+ * Warm the cache with every artifact in the manifest
+ * Safe to call repeatedly; cached artifacts are only re-hashed, not re-downloaded
+ */
+export async function prefetchCircuitArtifacts(): Promise<void> {
+  if (!cacheAvailable()) return;
+
+  const manifest = await loadCircuitManifest();
+  await evictStaleArtifactCaches(manifest.version);
+
+  console.log('📦 Prefetching circuit artifacts for manifest', manifest.version);
+  for (const circuit of await listCircuits()) {
+    for (const kind of Object.keys(circuit.artifacts) as ArtifactKind[]) {
+      await loadArtifact(circuit, kind);
+    }
+  }
+  console.log('📦 Circuit artifacts cached');
+}
@@ -0,0 +1,91 @@
+/**
+ * Circuit Artifact Integrity
+ * Downloads circuit artifacts and checks them against the SHA-256 digests pinned
+ * in the circuit manifest before snarkjs is allowed to use them
+ */
+
+import type { ArtifactKind, CircuitDefinition, CircuitId } from './circuitRegistry';
+
+/**
+ * Raised when a downloaded artifact does not match its pinned digest
+ */
+export class ArtifactIntegrityError extends Error {
+  readonly circuitId: CircuitId;
+  readonly artifact: ArtifactKind;
+  readonly url: string;
+  readonly expected: string;
+  readonly actual: string;
+
+  constructor(circuit: CircuitDefinition, artifact: ArtifactKind, actual: string) {
+    super(
+      `Integrity check failed for ${circuit.id} ${artifact} (${circuit.artifacts[artifact]}): ` +
+      `expected sha256 ${circuit.sha256[artifact]}, got ${actual}`
+    );
+    this.name = 'ArtifactIntegrityError';
+    this.circuitId = circuit.id;
+    this.artifact = artifact;
+    this.url = circuit.artifacts[artifact];
+    this.expected = circuit.sha256[artifact];
+    this.actual = actual;
+  }
+}
+
+const ARTIFACT_LABELS: Record<ArtifactKind, string> = {
+  wasm: 'circuit program',
+  zkey: 'proving key',
+  vkey: 'verification key',
+};
+
+/**
+ * Explain an integrity failure in terms a user can act on
+ */
+export function describeIntegrityError(error: ArtifactIntegrityError): string {
+  return (
+    `The ${error.circuitId} ${ARTIFACT_LABELS[error.artifact]} downloaded by your browser does not match ` +
+    'the version this app was built with, so no proof was created with it. ' +
+    'This usually means a stale deployment or a modified download. ' +
+    'Reload the page and try again; if it keeps happening, please contact support.'
+  );
+}
+
+/**
+ * Hex-encoded SHA-256 of a byte buffer
+ */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Check artifact bytes against the digest pinned in the manifest
+ */
+export async function assertArtifactIntegrity(
+  circuit: CircuitDefinition,
+  artifact: ArtifactKind,
+  data: Uint8Array
+): Promise<void> {
+  const actual = await sha256Hex(data);
+  if (actual !== circuit.sha256[artifact].toLowerCase()) {
+    throw new ArtifactIntegrityError(circuit, artifact, actual);
+  }
+}
+
+/**
+ * Download an artifact and verify it before returning its bytes
+ */
+export async function fetchVerifiedArtifact(
+  circuit: CircuitDefinition,
+  artifact: ArtifactKind
+): Promise<Uint8Array> {
+  const url = circuit.artifacts[artifact];
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${circuit.id} ${artifact}: HTTP ${response.status}`);
+  }
+
+  const data = new Uint8Array(await response.arrayBuffer());
+  await assertArtifactIntegrity(circuit, artifact, data);
+  return data;
+}
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import manifest from '../../public/circuits/manifest.json';
+import type { CircuitDefinition, CircuitId, ProofData } from './circuitRegistry';
+import { buildChallengeResponse, proofSatisfiesChallenge } from './challengeResponder';
+import type { Challenge, ChallengeParams } from './challengeResponder';
+import { countryCodeFor, requireCountryCode } from './commitment';
+
+vi.mock('./proofGenerator', () => ({
+  computeIdentityAnchors: vi.fn(),
+  generateAgeProof: vi.fn(),
+  generateNationalityProof: vi.fn(),
+  generateUniquenessProof: vi.fn(),
+  getStoredAgeProofs: vi.fn(),
+  getStoredProofs: vi.fn(),
+  storeProofs: vi.fn(),
+  verifyProofLocally: vi.fn(),
+}));
+
+vi.mock('./circuitRegistry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./circuitRegistry')>()),
+  getCircuit: async (id: CircuitId) => circuit(id),
+}));
+
+const generator = await import('./proofGenerator');
+
+const circuits = manifest.circuits as CircuitDefinition[];
+const circuit = (id: CircuitId) => circuits.find((c) => c.id === id)!;
+
+function challengeFor(proofType: CircuitId, params: ChallengeParams): Challenge {
+  return {
+    challengeId: 'challenge-1',
+    appId: 'app-1',
+    appName: 'Test App',
+    proofType,
+    params,
+    expiresAt: Date.now() + 60_000,
+    nonce: 'nonce-1',
+    createdAt: Date.now(),
+  };
+}
+
+function proofWith(attributeType: CircuitId, publicSignals: string[]): ProofData {
+  return {
+    proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+    publicSignals,
+    attributeType,
+  };
+}
+
+describe('countryCodeFor', () => {
+  it('maps known nationalities and leaves unknown ones undefined', () => {
+    expect(countryCodeFor('IN')).toBe(91);
+    expect(countryCodeFor('FR')).toBeUndefined();
+    expect(countryCodeFor('constructor')).toBeUndefined();
+  });
+
+  it('refuses to prove an unsupported nationality', () => {
+    expect(() => requireCountryCode('FR')).toThrow(/Unsupported nationality/);
+  });
+});
+
+describe('proofSatisfiesChallenge', () => {
+  // allowedCountry, isFromCountry, commitmentHash
+  const indianProof = proofWith('nationality', ['91', '1', '123']);
+
+  it('accepts a nationality proof for an allowed country', () => {
+    const challenge = challengeFor('nationality', { allowedCountries: ['FR', 'IN'] });
+    expect(proofSatisfiesChallenge(circuit('nationality'), indianProof, challenge)).toBe(true);
+  });
+
+  it('fails closed for countries the circuit has no code for', () => {
+    const challenge = challengeFor('nationality', { allowedCountries: ['FR'] });
+    expect(proofSatisfiesChallenge(circuit('nationality'), indianProof, challenge)).toBe(false);
+  });
+});
+
+describe('buildChallengeResponse', () => {
+  // minAge, isAboveAge, commitmentHash
+  const unboundAgeProof = proofWith('age', ['18', '1', '123']);
+  const responseOptions = {
+    walletPublicKey: 'wallet-1',
+    identity: null,
+    fetchRegisteredCommitments: async () => [],
+  };
+
+  beforeEach(() => {
+    vi.mocked(generator.getStoredAgeProofs).mockResolvedValue({ 18: unboundAgeProof });
+    vi.mocked(generator.verifyProofLocally).mockResolvedValue(true);
+  });
+
+  it('does not reuse an unbound stored proof by default', async () => {
+    await expect(buildChallengeResponse(challengeFor('age', { threshold: 18 }), responseOptions))
+      .rejects.toThrow(/No stored proof matches/);
+  });
+
+  it('reuses an unbound stored proof when the challenge opts in', async () => {
+    const response = await buildChallengeResponse(
+      challengeFor('age', { threshold: 18, allowUnbound: true }),
+      responseOptions
+    );
+    expect(response.publicSignals).toEqual(unboundAgeProof.publicSignals);
+    expect(response.binding).toBeNull();
+  });
+
+  it('does not store a challenge-bound proof as the record for its threshold', async () => {
+    const boundProof = proofWith('age', ['21', '1', '456']);
+    vi.mocked(generator.computeIdentityAnchors).mockResolvedValue({ identityCommitment: 456n, merkleRoot: 0n });
+    vi.mocked(generator.generateAgeProof).mockResolvedValue(boundProof);
+
+    const response = await buildChallengeResponse(challengeFor('age', { threshold: 21 }), {
+      ...responseOptions,
+      identity: { dateOfBirth: '19900101', nationality: 'IN', aadhaarHash: '1', identitySecret: '2' },
+    });
+    expect(response.publicSignals).toEqual(boundProof.publicSignals);
+    expect(generator.generateAgeProof).toHaveBeenCalledWith(
+      '19900101', 21, 2n, 456n, expect.objectContaining({ binding: expect.objectContaining({ challengeId: 'challenge-1' }) })
+    );
+    expect(generator.storeProofs).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Challenge Responder
+ * Builds responses to relying-party challenges from real proofs:
+ * reuses a stored proof when it satisfies the challenge, otherwise generates a fresh
+ * proof bound to the challenge, verifies it locally and wraps it in a response envelope
+ */
+
+import {
+  computeIdentityAnchors,
+  generateAgeProof,
+  generateNationalityProof,
+  generateUniquenessProof,
+  getStoredAgeProofs,
+  getStoredProofs,
+  verifyProofLocally,
+} from './proofGenerator';
+import type { GenerateProofOptions } from './proofGenerator';
+import { getCircuit, getPublicSignal, labelPublicSignals } from './circuitRegistry';
+import type {
+  CircuitDefinition,
+  CircuitId,
+  Groth16Proof,
+  ProofBinding,
+  ProofBindingContext,
+  ProofData,
+} from './circuitRegistry';
+import { countryCodeFor } from './commitment';
+import { bindingMatchesSignals, sameBindingContext } from './proofBinding';
+import type { IdentityProofInputs } from './identitySession';
+
+export interface ChallengeParams {
+  threshold?: number;          // age
+  allowedCountries?: string[]; // nationality, e.g. ["IN"]
+  scope?: string;              // uniqueness (informational; the circuit has no scope input)
+  allowUnbound?: boolean;      // accept a stored proof not bound to this challenge (replayable)
+}
+
+export interface Challenge {
+  challengeId: string;
+  appId: string;
+  appName: string;
+  proofType: CircuitId;
+  params: ChallengeParams;
+  expiresAt: number;
+  callbackUrl?: string;
+  nonce: string;
+  createdAt: number;
+}
+
+export interface ChallengeResponse {
+  version: 1;
+  challengeId: string;
+  appId: string;
+  proofType: CircuitId;
+  circuit: { id: CircuitId; version: string };
+  proof: Groth16Proof;
+  publicSignals: string[];
+  publicInputs: Record<string, string>; // publicSignals labelled with their circuit names
+  binding: ProofBinding | null;
+  walletPublicKey: string;
+  timestamp: number;
+}
+
+/**
+ * Raised when a challenge cannot be answered (expired, unmet or missing data)
+ */
+export class ChallengeResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChallengeResponseError';
+  }
+}
+
+/**
+ * The challenge id the relying party will check
+ * Older apps put a different id in the callback URL than in the QR; the URL wins
+ */
+export function resolveChallengeId(challenge: Challenge): string {
+  const urlMatch = challenge.callbackUrl?.match(/challenges\/([^/]+)\//);
+  if (urlMatch && urlMatch[1] !== challenge.challengeId) {
+    console.warn('⚠️ Challenge ID mismatch, using the ID from the callback URL');
+    return urlMatch[1];
+  }
+  return challenge.challengeId;
+}
+
+/**
+ * Binding context for a challenge and wallet
+ */
+export function challengeBindingContext(challenge: Challenge, walletPublicKey: string): ProofBindingContext {
+  return {
+    walletPublicKey,
+    challengeId: resolveChallengeId(challenge),
+    nonce: challenge.nonce,
+    relyingPartyId: challenge.appId,
+  };
+}
+
+function challengeThreshold(challenge: Challenge): number {
+  return challenge.params.threshold ?? 18;
+}
+
+/**
+ * Check whether a proof's public signals satisfy the challenge parameters
+ */
+export function proofSatisfiesChallenge(
+  circuit: CircuitDefinition,
+  proofData: ProofData,
+  challenge: Challenge
+): boolean {
+  const signal = (name: string) => getPublicSignal(circuit, proofData.publicSignals, name);
+
+  switch (challenge.proofType) {
+    case 'age':
+      // Exact match so we never disclose a stricter threshold than was asked for
+      return signal('isAboveAge') === '1'
+        && signal('minAge') === String(challengeThreshold(challenge));
+    case 'nationality': {
+      // Countries without a circuit code can never match, rather than falling back to another
+      const allowed = (challenge.params.allowedCountries || [])
+        .map(countryCodeFor)
+        .filter((code) => code !== undefined)
+        .map(String);
+      return signal('isFromCountry') === '1' && allowed.includes(signal('allowedCountry') ?? '');
+    }
+    case 'uniqueness':
+      return true;
+    default:
+      return false;
+  }
+}
+
+async function findReusableProof(
+  circuit: CircuitDefinition,
+  challenge: Challenge,
+  context: ProofBindingContext
+): Promise<ProofData | null> {
+  const stored = challenge.proofType === 'age'
+    ? (await getStoredAgeProofs(context.walletPublicKey))[challengeThreshold(challenge)]
+    : (await getStoredProofs(context.walletPublicKey))[challenge.proofType];
+  if (!stored || !proofSatisfiesChallenge(circuit, stored, challenge)) return null;
+
+  // An unbound proof can be replayed by anyone who has seen it, so only the relying
+  // party can choose to accept one
+  if (!stored.binding) {
+    return challenge.params.allowUnbound ? stored : null;
+  }
+  // A proof bound to another request would fail the relying party's binding check
+  return sameBindingContext(stored.binding.context, context) ? stored : null;
+}
+
+async function generateBoundProof(
+  challenge: Challenge,
+  identity: IdentityProofInputs,
+  options: GenerateProofOptions,
+  fetchRegisteredCommitments: () => Promise<bigint[]>
+): Promise<ProofData> {
+  const registeredCommitments = challenge.proofType === 'uniqueness'
+    ? await fetchRegisteredCommitments()
+    : [];
+  const { identityCommitment, merkleRoot } = await computeIdentityAnchors(identity, registeredCommitments);
+
+  switch (challenge.proofType) {
+    case 'age':
+      return generateAgeProof(
+        identity.dateOfBirth,
+        challengeThreshold(challenge),
+        BigInt(identity.identitySecret),
+        identityCommitment,
+        options
+      );
+    case 'nationality': {
+      const allowed = challenge.params.allowedCountries || [];
+      // The circuit proves membership of one country, so prove our own if it is allowed
+      if (!allowed.includes(identity.nationality)) {
+        throw new ChallengeResponseError(
+          `Your nationality is not one of the countries ${challenge.appName} accepts.`
+        );
+      }
+      return generateNationalityProof(
+        identity.nationality,
+        identity.nationality,
+        BigInt(identity.identitySecret),
+        identityCommitment,
+        options
+      );
+    }
+    case 'uniqueness':
+      return generateUniquenessProof(BigInt(identity.aadhaarHash), BigInt(identity.identitySecret), merkleRoot, options);
+    default:
+      throw new ChallengeResponseError(`Unsupported proof type: ${challenge.proofType}`);
+  }
+}
+
+/**
+ * Build a verified response envelope for a challenge
+ */
+export async function buildChallengeResponse(
+  challenge: Challenge,
+  options: {
+    walletPublicKey: string;
+    identity: IdentityProofInputs | null;  // Needed only when no stored proof can be reused
+    fetchRegisteredCommitments: () => Promise<bigint[]>;
+    prove?: Omit<GenerateProofOptions, 'binding'>;
+  }
+): Promise<ChallengeResponse> {
+  if (Date.now() > challenge.expiresAt) {
+    throw new ChallengeResponseError('This challenge has expired. Please request a new one from the app.');
+  }
+
+  const circuit = await getCircuit(challenge.proofType);
+  const context = challengeBindingContext(challenge, options.walletPublicKey);
+
+  // A generated proof is bound to this challenge and expires with it, so it is returned
+  // without being stored: it must not replace the renewable proof kept for its threshold
+  let proofData = await findReusableProof(circuit, challenge, context);
+  if (proofData) {
+    console.log(`♻️ Reusing stored ${challenge.proofType} proof`);
+  } else {
+    if (!options.identity) {
+      throw new ChallengeResponseError(
+        'No stored proof matches this challenge. Unlock your identity vault or scan your Aadhaar QR again.'
+      );
+    }
+    console.log(`⚙️ Generating ${challenge.proofType} proof bound to challenge ${context.challengeId}`);
+    proofData = await generateBoundProof(
+      challenge,
+      options.identity,
+      { ...options.prove, binding: context },
+      options.fetchRegisteredCommitments
+    );
+  }
+
+  if (!proofSatisfiesChallenge(circuit, proofData, challenge)) {
+    throw new ChallengeResponseError(`Your identity does not meet ${challenge.appName}'s requirement.`);
+  }
+
+  // Never send a proof the relying party would reject
+  const isValid = await verifyProofLocally(proofData.proof, proofData.publicSignals, challenge.proofType);
+  if (!isValid) {
+    throw new ChallengeResponseError('The proof failed local verification. Please regenerate your proofs.');
+  }
+  if (proofData.binding && !(await bindingMatchesSignals(circuit, proofData.publicSignals, proofData.binding))) {
+    throw new ChallengeResponseError('The proof binding does not match its public signals.');
+  }
+
+  return {
+    version: 1,
+    challengeId: context.challengeId,
+    appId: challenge.appId,
+    proofType: challenge.proofType,
+    circuit: { id: circuit.id, version: circuit.version },
+    proof: proofData.proof,
+    publicSignals: proofData.publicSignals,
+    publicInputs: labelPublicSignals(circuit, proofData.publicSignals),
+    binding: proofData.binding ?? null,
+    walletPublicKey: options.walletPublicKey,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * POST a response envelope to the challenge's callback URL
+ */
+export async function submitChallengeResponse(
+  challenge: Challenge,
+  response: ChallengeResponse
+): Promise<void> {
+  if (!challenge.callbackUrl) return;
+
+  console.log('📤 Submitting proof to:', challenge.callbackUrl);
+  const result = await fetch(challenge.callbackUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(response),
+  });
+
+  if (!result.ok) {
+    const errorData = await result.json().catch(() => ({ error: 'Unknown error' }));
+    console.error(' Backend error:', errorData);
+    throw new Error(errorData.error || 'Failed to submit proof to app');
+  }
+
+  console.log(' Proof accepted by backend');
+}
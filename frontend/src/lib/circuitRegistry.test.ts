@@ -0,0 +1,18 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import manifest from '../../public/circuits/manifest.json';
+import { getCircuit, loadCircuitManifest } from './circuitRegistry';
+
+describe('loadCircuitManifest', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uses the manifest bundled at build time, never the network', async () => {
+    const fetch = vi.fn(async () => new Response('{}'));
+    vi.stubGlobal('fetch', fetch);
+
+    expect((await loadCircuitManifest()).version).toBe(manifest.version);
+    expect((await getCircuit('age')).sha256).toEqual(manifest.circuits.find((c) => c.id === 'age')!.sha256);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
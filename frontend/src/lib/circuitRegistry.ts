@@ -0,0 +1,151 @@
+/**
+ * Circuit Registry
+ * Single source of truth for circuit artifacts, versions and public signal layout
+ * Driven by public/circuits/manifest.json so new circuit versions ship without code edits,
+ * only a rebuild
+ *
+ * The manifest is bundled at build time rather than fetched: its pinned artifact hashes
+ * ship with the code, so whoever serves the artifacts cannot swap the hashes with them.
+ */
+
+import bundledManifest from '../../public/circuits/manifest.json';
+
+export type CircuitId = 'age' | 'nationality' | 'uniqueness';
+
+export interface CircuitArtifacts {
+  wasm: string;
+  zkey: string;
+  vkey: string;
+}
+
+export type ArtifactKind = keyof CircuitArtifacts;
+
+export interface CircuitDefinition {
+  id: CircuitId;
+  version: string;
+  attributeBit: number; // Bit set in the on-chain attributes_verified mask
+  artifacts: CircuitArtifacts;
+  sha256: Record<ArtifactKind, string>; // Pinned hex digests, checked after download
+  publicSignals: string[]; // Names in the order snarkjs emits them
+  bindingSignal: string; // Public signal that carries the binding (see proofBinding.ts)
+}
+
+export interface CircuitManifest {
+  version: string;
+  circuits: CircuitDefinition[];
+}
+
+export interface Groth16Proof {
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+  protocol: string;
+  curve: string;
+}
+
+export interface VerificationKey {
+  protocol: string;
+  curve: string;
+  nPublic: number;
+  [key: string]: unknown;
+}
+
+export interface ProofBindingContext {
+  walletPublicKey: string; // Base58 wallet address of the holder
+  challengeId: string;
+  nonce: string;           // Verifier-chosen nonce for this request
+  relyingPartyId: string;  // App id of the verifier
+}
+
+export interface ProofBinding {
+  context: ProofBindingContext;
+  anchor: string; // Unbound value of the binding signal (commitment or Merkle root), decimal
+}
+
+export interface ProofData {
+  proof: Groth16Proof;
+  publicSignals: string[];
+  attributeType: CircuitId;
+  binding?: ProofBinding; // Present when the proof was generated for a specific request
+}
+
+let manifestPromise: Promise<CircuitManifest> | null = null;
+
+function validateManifest(manifest: CircuitManifest): CircuitManifest {
+  if (!manifest || typeof manifest.version !== 'string' || !Array.isArray(manifest.circuits)) {
+    throw new Error('Invalid circuit manifest: missing version or circuits');
+  }
+
+  for (const circuit of manifest.circuits) {
+    if (!circuit.id || !circuit.version || !circuit.artifacts?.wasm || !circuit.artifacts?.zkey || !circuit.artifacts?.vkey) {
+      throw new Error(`Invalid circuit manifest entry: ${circuit.id || 'unknown'}`);
+    }
+    if (!Array.isArray(circuit.publicSignals) || typeof circuit.attributeBit !== 'number') {
+      throw new Error(`Circuit manifest entry ${circuit.id} is missing publicSignals or attributeBit`);
+    }
+    if (!circuit.publicSignals.includes(circuit.bindingSignal)) {
+      throw new Error(`Circuit manifest entry ${circuit.id} has no valid bindingSignal`);
+    }
+    if (!circuit.sha256?.wasm || !circuit.sha256?.zkey || !circuit.sha256?.vkey) {
+      throw new Error(`Circuit manifest entry ${circuit.id} is missing pinned artifact hashes`);
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Load the circuit manifest bundled with the app (validated once per session)
+ */
+export function loadCircuitManifest(): Promise<CircuitManifest> {
+  if (!manifestPromise) {
+    manifestPromise = Promise.resolve().then(() => validateManifest(bundledManifest as CircuitManifest));
+  }
+  return manifestPromise;
+}
+
+/**
+ * Get all circuits listed in the manifest
+ */
+export async function listCircuits(): Promise<CircuitDefinition[]> {
+  const manifest = await loadCircuitManifest();
+  return manifest.circuits;
+}
+
+/**
+ * Resolve a circuit by id
+ */
+export async function getCircuit(id: CircuitId): Promise<CircuitDefinition> {
+  const manifest = await loadCircuitManifest();
+  const circuit = manifest.circuits.find((c) => c.id === id);
+  if (!circuit) {
+    throw new Error(`Circuit "${id}" is not listed in the circuit manifest`);
+  }
+  return circuit;
+}
+
+/**
+ * Read a named public signal from a proof's public signals
+ */
+export function getPublicSignal(
+  circuit: CircuitDefinition,
+  publicSignals: string[],
+  name: string
+): string | undefined {
+  const index = circuit.publicSignals.indexOf(name);
+  return index === -1 ? undefined : publicSignals[index];
+}
+
+/**
+ * Label public signals with their names from the manifest
+ */
+export function labelPublicSignals(
+  circuit: CircuitDefinition,
+  publicSignals: string[]
+): Record<string, string> {
+  const labelled: Record<string, string> = {};
+  circuit.publicSignals.forEach((name, index) => {
+    labelled[name] = publicSignals[index];
+  });
+  return labelled;
+}
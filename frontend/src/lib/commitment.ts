@@ -0,0 +1,83 @@
+/**
+ * Identity Commitment
+ * Poseidon commitment over the identity secret and the attributes our circuits prove
+ * The same value is registered on-chain and used as the commitmentHash public input
+ */
+
+import { buildPoseidon } from 'circomlibjs';
+import type { Poseidon } from 'circomlibjs';
+
+// Numeric country codes used by the nationality circuit (phone dialling codes)
+const COUNTRY_CODES: { [key: string]: number } = {
+  'IN': 91, // India
+  'US': 1,  // United States
+  'UK': 44, // United Kingdom
+  'CN': 86, // China
+  'JP': 81, // Japan
+};
+
+let poseidonPromise: Promise<Poseidon> | null = null;
+
+/**
+ * Shared Poseidon instance (building it compiles wasm, so do it once)
+ */
+export function getPoseidon(): Promise<Poseidon> {
+  if (!poseidonPromise) {
+    poseidonPromise = buildPoseidon().catch((error) => {
+      poseidonPromise = null;
+      throw error;
+    });
+  }
+  return poseidonPromise;
+}
+
+/**
+ * Map a nationality to the circuit's numeric country code
+ * @returns undefined for a country the circuit has no code for
+ */
+export function countryCodeFor(nationality: string): number | undefined {
+  return Object.hasOwn(COUNTRY_CODES, nationality) ? COUNTRY_CODES[nationality] : undefined;
+}
+
+/**
+ * Country code for a nationality that must be supported, e.g. one being proved
+ */
+export function requireCountryCode(nationality: string): number {
+  const code = countryCodeFor(nationality);
+  if (code === undefined) {
+    throw new Error(`Unsupported nationality: ${nationality}`);
+  }
+  return code;
+}
+
+/**
+ * Normalise DD/MM/YYYY or YYYYMMDD to the YYYYMMDD number committed to
+ */
+export function dateOfBirthToField(dateOfBirth: string): bigint {
+  let normalized = dateOfBirth;
+  if (dateOfBirth.includes('/')) {
+    const [day, month, year] = dateOfBirth.split('/');
+    normalized = `${year}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
+  }
+  if (!/^\d{8}$/.test(normalized)) {
+    throw new Error('Invalid date format. Expected DD/MM/YYYY or YYYYMMDD');
+  }
+  return BigInt(normalized);
+}
+
+/**
+ * Compute the identity commitment Poseidon(identitySecret, dateOfBirth, countryCode)
+ */
+export async function computeIdentityCommitment(identity: {
+  identitySecret: string | bigint;
+  dateOfBirth: string;   // DD/MM/YYYY or YYYYMMDD
+  nationality: string;   // e.g., "IN"
+}): Promise<bigint> {
+  const poseidon = await getPoseidon();
+  const hash = poseidon([
+    BigInt(identity.identitySecret),
+    dateOfBirthToField(identity.dateOfBirth),
+    BigInt(requireCountryCode(identity.nationality)),
+  ]);
+  return poseidon.F.toObject(hash);
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { Groth16Proof } from './circuitRegistry';
+import {
+  BN254_BASE_FIELD,
+  GROTH16_COMPRESSED_PROOF_BYTES,
+  GROTH16_PROOF_BYTES,
+  PublicInputEncodingError,
+  deserializeGroth16Proof,
+  encodePublicInputs,
+  serializeGroth16Proof,
+} from './groth16Serializer';
+
+const P = BN254_BASE_FIELD;
+
+// BN254 generators in snarkjs form; G2 coordinates are [c0, c1]
+const G1 = ['1', '2'];
+const G2_X = [
+  '10857046999023057135944570762232829481370756359578518086990519993285655852781',
+  '11559732032986387107991004021392285783925812861821192530917403151452391805634',
+];
+const G2_Y = [
+  '8495653923123431417604973247489272438418190587263600148770280649306958101930',
+  '4082367875863433681332203403145435568316851327593401208105741076214120093531',
+];
+const NEG = (y: string) => (P - BigInt(y)).toString();
+
+function proofOf(a: string[], b: string[][], c: string[]): Groth16Proof {
+  return {
+    pi_a: [...a, '1'],
+    pi_b: [...b, ['1', '0']],
+    pi_c: [...c, '1'],
+    protocol: 'groth16',
+    curve: 'bn128',
+  };
+}
+
+const be32 = (value: string | bigint | number) => BigInt(value).toString(16).padStart(64, '0');
+const hex = (bytes: Uint8Array) => Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+const PROOF = proofOf(G1, [G2_X, G2_Y], [G1[0], NEG(G1[1])]);
+
+describe('serializeGroth16Proof', () => {
+  it('writes the groth16-solana layout: -A, B with (c1, c0) limbs, C', () => {
+    const bytes = serializeGroth16Proof(PROOF);
+    expect(bytes.length).toBe(GROTH16_PROOF_BYTES);
+    expect(hex(bytes)).toBe(
+      be32(1) + be32(NEG('2')) +                     // pi_a negated
+      be32(G2_X[1]) + be32(G2_X[0]) +                // pi_b.x as c1, c0
+      be32(G2_Y[1]) + be32(G2_Y[0]) +                // pi_b.y as c1, c0
+      be32(1) + be32(NEG('2'))                       // pi_c as given
+    );
+  });
+
+  it('compresses to x coordinates with the sign flag in the top bit', () => {
+    const bytes = serializeGroth16Proof(PROOF, { compressed: true });
+    expect(bytes.length).toBe(GROTH16_COMPRESSED_PROOF_BYTES);
+    // -A = (1, p-2): p-2 is the larger root, so the flag is set
+    expect(bytes[0]).toBe(0x80);
+    expect(hex(bytes.slice(1, 32))).toBe(be32(1).slice(2));
+    // C = (1, p-2) as well
+    expect(bytes[96]).toBe(0x80);
+  });
+
+  it('rejects proofs that are not Groth16 over BN254', () => {
+    expect(() => serializeGroth16Proof({ ...PROOF, protocol: 'plonk' })).toThrow(/Unsupported proof/);
+  });
+
+  it('rejects coordinates outside the base field', () => {
+    expect(() => serializeGroth16Proof(proofOf([P.toString(), '2'], [G2_X, G2_Y], G1))).toThrow(/base field/);
+  });
+});
+
+describe('deserializeGroth16Proof', () => {
+  it.each([
+    ['uncompressed', false],
+    ['compressed', true],
+  ])('round-trips %s proofs', (_, compressed) => {
+    for (const proof of [
+      PROOF,
+      proofOf([G1[0], NEG(G1[1])], [G2_X, [NEG(G2_Y[0]), NEG(G2_Y[1])]], G1),
+    ]) {
+      const bytes = serializeGroth16Proof(proof, { compressed });
+      expect(deserializeGroth16Proof(bytes)).toEqual(proof);
+    }
+  });
+
+  it('round-trips points at infinity when compressed', () => {
+    const proof = proofOf(['0', '0'], [['0', '0'], ['0', '0']], G1);
+    const bytes = serializeGroth16Proof(proof, { compressed: true });
+    expect(bytes[0]).toBe(0x40);
+    expect(bytes[32]).toBe(0x40);
+    expect(deserializeGroth16Proof(bytes)).toEqual(proof);
+  });
+
+  it('rejects compressed points that are not on the curve', () => {
+    const bytes = serializeGroth16Proof(PROOF, { compressed: true });
+    bytes[31] = 4; // x = 4 has no point on y² = x³ + 3
+    expect(() => deserializeGroth16Proof(bytes)).toThrow(/not on the curve/);
+  });
+
+  it('rejects other lengths', () => {
+    expect(() => deserializeGroth16Proof(new Uint8Array(100))).toThrow(/Invalid Groth16 proof length/);
+  });
+});
+
+describe('encodePublicInputs', () => {
+  it('writes 32-byte big-endian field elements', () => {
+    const bytes = encodePublicInputs(['1', 256n], { nPublic: 2 });
+    expect(hex(bytes)).toBe(be32(1) + be32(256));
+  });
+
+  it('checks the count against the verification key', () => {
+    expect(() => encodePublicInputs(['1'], { nPublic: 2 })).toThrow(PublicInputEncodingError);
+  });
+
+  it('rejects values that are not field elements', () => {
+    expect(() => encodePublicInputs(['0x10'], { nPublic: 1 })).toThrow(PublicInputEncodingError);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Groth16 Proof Serializer
+ * Converts snarkjs JSON proofs into the byte layout groth16-solana verifies:
+ * big-endian coordinates, pi_a negated, G2 limbs ordered (c1, c0)
+ *
+ * Uncompressed: pi_a (64) | pi_b (128) | pi_c (64) = 256 bytes
+ * Compressed:   pi_a (32) | pi_b (64)  | pi_c (32) = 128 bytes
+ * Compressed points carry their flags in the top bits of the first byte,
+ * matching Solana's alt_bn128 compression syscalls
+ *
+ * Public inputs are 32-byte big-endian scalar field elements, one per signal
+ */
+
+import type { Groth16Proof, VerificationKey } from './circuitRegistry';
+import { SNARK_SCALAR_FIELD } from './hashToField';
+
+// BN254 base field modulus (coordinates live here, not in the scalar field)
+export const BN254_BASE_FIELD = BigInt(
+  '21888242871839275222246405745257275088696311157297823662689037894645226208583'
+);
+
+const P = BN254_BASE_FIELD;
+const FIELD_BYTES = 32;
+
+const FLAG_Y_NEGATIVE = 0x80; // y is the larger of the two square roots
+const FLAG_INFINITY = 0x40;
+const FLAG_MASK = FLAG_Y_NEGATIVE | FLAG_INFINITY;
+
+// Twist curve constant b' = 3 / (9 + u) for G2
+const TWIST_B: Fp2 = [
+  BigInt('19485874751759354771024239261021720505790618469301721065564631296452457478373'),
+  BigInt('266929791119991161246907387137283842545076965332900288569378510910307636690'),
+];
+
+export const GROTH16_PROOF_BYTES = 256;
+export const GROTH16_COMPRESSED_PROOF_BYTES = 128;
+
+export interface SerializeProofOptions {
+  compressed?: boolean;
+}
+
+/**
+ * Raised when public signals cannot be encoded for the verifier
+ */
+export class PublicInputEncodingError extends Error {
+  readonly index?: number;
+
+  constructor(message: string, index?: number) {
+    super(message);
+    this.name = 'PublicInputEncodingError';
+    this.index = index;
+  }
+}
+
+type G1 = [bigint, bigint];
+type Fp2 = [bigint, bigint]; // c0 + c1·u
+type G2 = [Fp2, Fp2];
+
+// ---------------------------------------------------------------------------
+// Field arithmetic
+// ---------------------------------------------------------------------------
+
+function mod(a: bigint): bigint {
+  const r = a % P;
+  return r < 0n ? r + P : r;
+}
+
+function pow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % P;
+    b = (b * b) % P;
+    e >>= 1n;
+  }
+  return result;
+}
+
+/** Square root in Fp (p ≡ 3 mod 4), or null if there is none */
+function sqrt(a: bigint): bigint | null {
+  const root = pow(a, (P + 1n) / 4n);
+  return (root * root) % P === mod(a) ? root : null;
+}
+
+function fp2Add(a: Fp2, b: Fp2): Fp2 {
+  return [mod(a[0] + b[0]), mod(a[1] + b[1])];
+}
+
+function fp2Mul(a: Fp2, b: Fp2): Fp2 {
+  // u² = -1
+  return [mod(a[0] * b[0] - a[1] * b[1]), mod(a[0] * b[1] + a[1] * b[0])];
+}
+
+function fp2Pow(base: Fp2, exponent: bigint): Fp2 {
+  let result: Fp2 = [1n, 0n];
+  let b = base;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = fp2Mul(result, b);
+    b = fp2Mul(b, b);
+    e >>= 1n;
+  }
+  return result;
+}
+
+function fp2Eq(a: Fp2, b: Fp2): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/** Square root in Fp2 for p ≡ 3 mod 4 (Adj & Rodríguez-Henríquez, Algorithm 9) */
+function fp2Sqrt(a: Fp2): Fp2 | null {
+  const minusOne: Fp2 = [P - 1n, 0n];
+  const a1 = fp2Pow(a, (P - 3n) / 4n);
+  const alpha = fp2Mul(a1, fp2Mul(a1, a));
+  const x0 = fp2Mul(a1, a);
+
+  let root: Fp2;
+  if (fp2Eq(alpha, minusOne)) {
+    root = fp2Mul([0n, 1n], x0);
+  } else {
+    const b = fp2Pow(fp2Add([1n, 0n], alpha), (P - 1n) / 2n);
+    root = fp2Mul(b, x0);
+  }
+  return fp2Eq(fp2Mul(root, root), [mod(a[0]), mod(a[1])]) ? root : null;
+}
+
+/** Whether y is the lexicographically larger root (compares c1 first for Fp2) */
+function isLargerRoot(y: bigint | Fp2): boolean {
+  if (typeof y === 'bigint') {
+    return y > P - 1n - y;
+  }
+  const negated: Fp2 = [mod(-y[0]), mod(-y[1])];
+  if (y[1] !== negated[1]) return y[1] > negated[1];
+  return y[0] > negated[0];
+}
+
+// ---------------------------------------------------------------------------
+// Byte encoding
+// ---------------------------------------------------------------------------
+
+function writeBigEndian(out: Uint8Array, offset: number, value: bigint) {
+  if (value < 0n || value >= P) {
+    throw new Error(`Coordinate ${value} is not a BN254 base field element`);
+  }
+  let v = value;
+  for (let i = FIELD_BYTES - 1; i >= 0; i--) {
+    out[offset + i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+}
+
+function readBigEndian(bytes: Uint8Array, offset: number, clearFlags = false): bigint {
+  let value = 0n;
+  for (let i = 0; i < FIELD_BYTES; i++) {
+    const byte = i === 0 && clearFlags ? bytes[offset] & ~FLAG_MASK : bytes[offset + i];
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value;
+}
+
+function parseG1(point: string[]): G1 {
+  return [BigInt(point[0]), BigInt(point[1])];
+}
+
+function parseG2(point: string[][]): G2 {
+  return [
+    [BigInt(point[0][0]), BigInt(point[0][1])],
+    [BigInt(point[1][0]), BigInt(point[1][1])],
+  ];
+}
+
+function isG1Infinity(point: G1): boolean {
+  return point[0] === 0n && point[1] === 0n;
+}
+
+function isG2Infinity(point: G2): boolean {
+  return point[0][0] === 0n && point[0][1] === 0n && point[1][0] === 0n && point[1][1] === 0n;
+}
+
+function negateG1(point: G1): G1 {
+  return [point[0], mod(-point[1])];
+}
+
+function writeG1(out: Uint8Array, offset: number, point: G1, compressed: boolean): number {
+  if (!compressed) {
+    writeBigEndian(out, offset, point[0]);
+    writeBigEndian(out, offset + FIELD_BYTES, point[1]);
+    return offset + 2 * FIELD_BYTES;
+  }
+
+  if (isG1Infinity(point)) {
+    out[offset] = FLAG_INFINITY;
+  } else {
+    writeBigEndian(out, offset, point[0]);
+    if (isLargerRoot(point[1])) out[offset] |= FLAG_Y_NEGATIVE;
+  }
+  return offset + FIELD_BYTES;
+}
+
+function writeG2(out: Uint8Array, offset: number, point: G2, compressed: boolean): number {
+  const [x, y] = point;
+  if (!compressed) {
+    writeBigEndian(out, offset, x[1]);
+    writeBigEndian(out, offset + FIELD_BYTES, x[0]);
+    writeBigEndian(out, offset + 2 * FIELD_BYTES, y[1]);
+    writeBigEndian(out, offset + 3 * FIELD_BYTES, y[0]);
+    return offset + 4 * FIELD_BYTES;
+  }
+
+  if (isG2Infinity(point)) {
+    out[offset] = FLAG_INFINITY;
+  } else {
+    writeBigEndian(out, offset, x[1]);
+    writeBigEndian(out, offset + FIELD_BYTES, x[0]);
+    if (isLargerRoot(y)) out[offset] |= FLAG_Y_NEGATIVE;
+  }
+  return offset + 2 * FIELD_BYTES;
+}
+
+function readG1(bytes: Uint8Array, offset: number, compressed: boolean): G1 {
+  if (!compressed) {
+    return [readBigEndian(bytes, offset), readBigEndian(bytes, offset + FIELD_BYTES)];
+  }
+
+  const flags = bytes[offset] & FLAG_MASK;
+  if (flags & FLAG_INFINITY) return [0n, 0n];
+
+  const x = readBigEndian(bytes, offset, true);
+  const y = sqrt(mod(x * x * x + 3n));
+  if (y === null) {
+    throw new Error('Compressed G1 point is not on the curve');
+  }
+  return [x, isLargerRoot(y) === Boolean(flags & FLAG_Y_NEGATIVE) ? y : mod(-y)];
+}
+
+function readG2(bytes: Uint8Array, offset: number, compressed: boolean): G2 {
+  if (!compressed) {
+    return [
+      [readBigEndian(bytes, offset + FIELD_BYTES), readBigEndian(bytes, offset)],
+      [readBigEndian(bytes, offset + 3 * FIELD_BYTES), readBigEndian(bytes, offset + 2 * FIELD_BYTES)],
+    ];
+  }
+
+  const flags = bytes[offset] & FLAG_MASK;
+  if (flags & FLAG_INFINITY) return [[0n, 0n], [0n, 0n]];
+
+  const x: Fp2 = [readBigEndian(bytes, offset + FIELD_BYTES), readBigEndian(bytes, offset, true)];
+  const y = fp2Sqrt(fp2Add(fp2Mul(fp2Mul(x, x), x), TWIST_B));
+  if (y === null) {
+    throw new Error('Compressed G2 point is not on the curve');
+  }
+  const negY: Fp2 = [mod(-y[0]), mod(-y[1])];
+  return [x, isLargerRoot(y) === Boolean(flags & FLAG_Y_NEGATIVE) ? y : negY];
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Serialize a snarkjs Groth16 proof for the on-chain verifier
+ */
+export function serializeGroth16Proof(
+  proof: Groth16Proof,
+  options: SerializeProofOptions = {}
+): Uint8Array {
+  if (proof.protocol !== 'groth16' || (proof.curve !== 'bn128' && proof.curve !== 'bn254')) {
+    throw new Error(`Unsupported proof: ${proof.protocol} on ${proof.curve}`);
+  }
+
+  const compressed = options.compressed ?? false;
+  const out = new Uint8Array(compressed ? GROTH16_COMPRESSED_PROOF_BYTES : GROTH16_PROOF_BYTES);
+
+  // The verifier checks e(-A, B)·e(alpha, beta)·... = 1, so A is sent negated
+  let offset = writeG1(out, 0, negateG1(parseG1(proof.pi_a)), compressed);
+  offset = writeG2(out, offset, parseG2(proof.pi_b), compressed);
+  writeG1(out, offset, parseG1(proof.pi_c), compressed);
+
+  return out;
+}
+
+/**
+ * Parse serialized proof bytes back into snarkjs JSON form
+ * The layout is inferred from the length (256 uncompressed, 128 compressed)
+ */
+export function deserializeGroth16Proof(bytes: Uint8Array): Groth16Proof {
+  let compressed: boolean;
+  if (bytes.length === GROTH16_PROOF_BYTES) {
+    compressed = false;
+  } else if (bytes.length === GROTH16_COMPRESSED_PROOF_BYTES) {
+    compressed = true;
+  } else {
+    throw new Error(`Invalid Groth16 proof length: ${bytes.length} bytes`);
+  }
+
+  const g1Size = compressed ? FIELD_BYTES : 2 * FIELD_BYTES;
+  const g2Size = 2 * g1Size;
+
+  const a = negateG1(readG1(bytes, 0, compressed));
+  const b = readG2(bytes, g1Size, compressed);
+  const c = readG1(bytes, g1Size + g2Size, compressed);
+
+  return {
+    pi_a: [a[0].toString(), a[1].toString(), '1'],
+    pi_b: [
+      [b[0][0].toString(), b[0][1].toString()],
+      [b[1][0].toString(), b[1][1].toString()],
+      ['1', '0'],
+    ],
+    pi_c: [c[0].toString(), c[1].toString(), '1'],
+    protocol: 'groth16',
+    curve: 'bn128',
+  };
+}
+
+/**
+ * Encode snarkjs public signals (decimal strings) as 32-byte big-endian field elements
+ * The count must match the verification key's nPublic
+ */
+export function encodePublicInputs(
+  publicSignals: (string | bigint)[],
+  vkey: Pick<VerificationKey, 'nPublic'>
+): Uint8Array {
+  if (publicSignals.length !== vkey.nPublic) {
+    throw new PublicInputEncodingError(
+      `Expected ${vkey.nPublic} public inputs for this circuit, got ${publicSignals.length}`
+    );
+  }
+
+  const out = new Uint8Array(publicSignals.length * FIELD_BYTES);
+  publicSignals.forEach((signal, index) => {
+    if (typeof signal === 'string' && !/^\d+$/.test(signal)) {
+      throw new PublicInputEncodingError(
+        `Public input ${index} is not a decimal field element: "${signal}"`,
+        index
+      );
+    }
+
+    const value = BigInt(signal);
+    if (value < 0n || value >= SNARK_SCALAR_FIELD) {
+      throw new PublicInputEncodingError(
+        `Public input ${index} is outside the BN254 scalar field`,
+        index
+      );
+    }
+
+    let v = value;
+    for (let i = FIELD_BYTES - 1; i >= 0; i--) {
+      out[index * FIELD_BYTES + i] = Number(v & 0xffn);
+      v >>= 8n;
+    }
+  });
+
+  return out;
+}
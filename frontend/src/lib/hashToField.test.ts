@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { buildPoseidon } from 'circomlibjs';
+import {
+  SNARK_SCALAR_FIELD,
+  deriveNullifier,
+  fieldToHex,
+  hashBytesToField,
+  hashToField,
+  toField,
+  toIdentitySecret,
+} from './hashToField';
+
+// Reference: circomlibjs Poseidon called directly with the documented chunk layout
+async function referenceHash(bytes: Uint8Array): Promise<bigint> {
+  const poseidon = await buildPoseidon();
+  const chunks: bigint[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 31) {
+    chunks.push(BigInt('0x' + (Array.from(bytes.slice(offset, offset + 31))
+      .map((b) => b.toString(16).padStart(2, '0')).join('') || '0')));
+  }
+  let state = BigInt(bytes.length);
+  for (let i = 0; i === 0 || i < chunks.length; i += 15) {
+    state = poseidon.F.toObject(poseidon([state, ...chunks.slice(i, i + 15)]));
+  }
+  return state;
+}
+
+// Pinned outputs, so a change to the chunking or domain separation is caught
+const HASH_EMPTY = 19014214495641488759237505126948346942972912379615652741039992445865937985820n; // Poseidon(0)
+const HASH_AADHAAR_SAMPLE = 14927209564088368727802078671801415834344852609454609929750936059910295865718n;
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('hashToField', () => {
+  it('matches the circomlibjs Poseidon reference vector', async () => {
+    // Poseidon(1, 2) from the circomlib test suite
+    expect(await deriveNullifier(1n, 2n)).toBe(
+      7853200120776062878684798364095072458815029376092732009249414926327459813530n
+    );
+  });
+
+  it.each([
+    ['empty input', '', 0],
+    ['an Aadhaar-length number', '123456789012', 12],
+    ['one full chunk', 'a'.repeat(31), 31],
+    ['a partial second chunk', 'b'.repeat(32), 32],
+    ['a second Poseidon round', 'c'.repeat(31 * 15 + 1), 31 * 15 + 1],
+  ])('hashes %s like the reference', async (_, input, length) => {
+    const bytes = encode(input);
+    expect(bytes.length).toBe(length);
+    expect(await hashToField(input)).toBe(await referenceHash(bytes));
+  });
+
+  it('keeps known outputs stable', async () => {
+    expect(await hashToField('')).toBe(HASH_EMPTY);
+    expect(await hashToField('123456789012')).toBe(HASH_AADHAAR_SAMPLE);
+  });
+
+  it('separates inputs that differ only in trailing zero bytes', async () => {
+    const a = await hashBytesToField(new Uint8Array([1, 2]));
+    const b = await hashBytesToField(new Uint8Array([1, 2, 0]));
+    expect(a).not.toBe(b);
+  });
+
+  it('always returns a scalar field element', async () => {
+    const value = await hashToField('field check');
+    expect(value >= 0n && value < SNARK_SCALAR_FIELD).toBe(true);
+  });
+});
+
+describe('field helpers', () => {
+  it('reduces integers into the field', () => {
+    expect(toField(SNARK_SCALAR_FIELD + 5n)).toBe(5n);
+    expect(toField(-1n)).toBe(SNARK_SCALAR_FIELD - 1n);
+  });
+
+  it('encodes field elements as 32-byte hex', () => {
+    expect(fieldToHex(255n)).toBe('0'.repeat(62) + 'ff');
+  });
+
+  it('reduces decimal nonces and hashes anything else', async () => {
+    expect(await toIdentitySecret('42')).toBe(42n);
+    expect(await toIdentitySecret('nonce-abc')).toBe(await hashToField('nonce-abc'));
+  });
+});
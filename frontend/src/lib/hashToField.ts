@@ -0,0 +1,89 @@
+/**
+ * Hash to Field
+ * Maps arbitrary strings and bytes onto the BN254 scalar field with Poseidon
+ * so values like the Aadhaar number can be used safely as circuit inputs
+ */
+
+import { getPoseidon } from './commitment';
+
+// BN254 (bn128) scalar field modulus, the field all our circuits work over
+export const SNARK_SCALAR_FIELD = BigInt(
+  '21888242871839275222246405745257275088548364400416034343698204186575808495617'
+);
+
+// 31 bytes always fit below the modulus, so chunks never need reducing
+const CHUNK_BYTES = 31;
+// circomlibjs Poseidon takes at most 16 inputs; one slot carries the running state
+const CHUNKS_PER_ROUND = 15;
+
+/**
+ * Reduce any integer into the scalar field
+ */
+export function toField(value: bigint | number | string): bigint {
+  const reduced = BigInt(value) % SNARK_SCALAR_FIELD;
+  return reduced < 0n ? reduced + SNARK_SCALAR_FIELD : reduced;
+}
+
+/**
+ * Encode a field element as the 32-byte hex string the on-chain program expects
+ */
+export function fieldToHex(value: bigint | string): string {
+  return BigInt(value).toString(16).padStart(64, '0');
+}
+
+function chunkToBigInt(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value;
+}
+
+/**
+ * Hash bytes to a field element
+ * The state starts at the input length so inputs differing only in trailing zeros
+ * hash differently, then absorbs up to 15 big-endian 31-byte chunks per Poseidon call
+ */
+export async function hashBytesToField(bytes: Uint8Array): Promise<bigint> {
+  const poseidon = await getPoseidon();
+
+  const chunks: bigint[] = [];
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_BYTES) {
+    chunks.push(chunkToBigInt(bytes.subarray(offset, offset + CHUNK_BYTES)));
+  }
+
+  let state = BigInt(bytes.length);
+  // Empty input still goes through one round so the result is a Poseidon output
+  for (let i = 0; i === 0 || i < chunks.length; i += CHUNKS_PER_ROUND) {
+    state = poseidon.F.toObject(poseidon([state, ...chunks.slice(i, i + CHUNKS_PER_ROUND)]));
+  }
+
+  return toField(state);
+}
+
+/**
+ * Hash a UTF-8 string to a field element
+ */
+export function hashToField(input: string): Promise<bigint> {
+  return hashBytesToField(new TextEncoder().encode(input));
+}
+
+/**
+ * Turn a nonce into the identity secret used by every circuit
+ * Decimal nonces are reduced into the field; anything else is hashed
+ */
+export async function toIdentitySecret(nonce: string): Promise<bigint> {
+  if (/^\d+$/.test(nonce)) {
+    return toField(nonce);
+  }
+  return hashToField(nonce);
+}
+
+/**
+ * Derive the uniqueness nullifier Poseidon(identitySecret, aadhaarHash)
+ * Matches the constraint in the uniqueness circuit
+ */
+export async function deriveNullifier(identitySecret: bigint, aadhaarHash: bigint): Promise<bigint> {
+  const poseidon = await getPoseidon();
+  return poseidon.F.toObject(poseidon([identitySecret, aadhaarHash]));
+}
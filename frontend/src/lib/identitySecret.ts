@@ -0,0 +1,78 @@
+/**
+ * Identity Secret
+ * Derives the identity secret every circuit takes from the wallet itself:
+ *   identitySecret = H(signature over a domain-separated message naming the wallet and salt)
+ * Ed25519 signatures are deterministic, so the same wallet and salt give the same secret
+ * on any device. The salt lives in localStorage; the default one is fixed, so a new
+ * device only needs the salt re-entered if the holder chose a custom one
+ */
+
+import { hashBytesToField } from './hashToField';
+import type { SignMessage } from './identityVault';
+
+export const DEFAULT_IDENTITY_SALT = 'default';
+const SECRET_VERSION = 1;
+
+// Derivations are cached per wallet and salt so the wallet is asked to sign once per session
+const secretCache = new Map<string, Promise<bigint>>();
+
+function saltKey(walletAddress: string): string {
+  return `solstice_identity_salt_${walletAddress}`;
+}
+
+/**
+ * Salt used for this wallet's identity secret
+ */
+export function getIdentitySalt(walletAddress: string): string {
+  return localStorage.getItem(saltKey(walletAddress)) || DEFAULT_IDENTITY_SALT;
+}
+
+/**
+ * Change the salt for this wallet
+ * This changes the identity secret, and so the commitment; re-register afterwards
+ */
+export function setIdentitySalt(walletAddress: string, salt: string): void {
+  localStorage.setItem(saltKey(walletAddress), salt);
+}
+
+/**
+ * Message the wallet signs to derive the identity secret
+ */
+function identitySecretMessage(walletAddress: string, salt: string): Uint8Array {
+  return new TextEncoder().encode(
+    `Solstice Protocol: derive identity secret\n` +
+    `Wallet: ${walletAddress}\n` +
+    `Salt: ${salt}\n` +
+    `Version: ${SECRET_VERSION}\n` +
+    `Only sign this on the Solstice website.`
+  );
+}
+
+/**
+ * Derive this wallet's identity secret, prompting for a signature on first use
+ */
+export function deriveIdentitySecret(walletAddress: string, signMessage: SignMessage): Promise<bigint> {
+  const salt = getIdentitySalt(walletAddress);
+  const cacheKey = `${walletAddress}:${salt}`;
+
+  let secret = secretCache.get(cacheKey);
+  if (!secret) {
+    console.log('🔑 Deriving identity secret from wallet signature...');
+    secret = signMessage(identitySecretMessage(walletAddress, salt)).then((signature) => {
+      // Persist the salt in use so a later custom salt change is explicit
+      localStorage.setItem(saltKey(walletAddress), salt);
+      return hashBytesToField(signature);
+    });
+    secretCache.set(cacheKey, secret);
+    // A rejected signature should not stick
+    secret.catch(() => secretCache.delete(cacheKey));
+  }
+  return secret;
+}
+
+/**
+ * Forget cached identity secrets
+ */
+export function clearIdentitySecretCache() {
+  secretCache.clear();
+}
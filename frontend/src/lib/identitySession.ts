@@ -0,0 +1,54 @@
+/**
+ * Identity Session
+ * Keeps the proving inputs in memory for this tab, so challenges can be answered
+ * with fresh proofs without rescanning. They come from the last Aadhaar scan or
+ * from unlocking the identity vault (see identityVault.ts)
+ * Nothing here is persisted; a reload or an explicit lock clears it
+ */
+
+export interface IdentityProofInputs {
+  dateOfBirth: string;    // YYYYMMDD
+  nationality: string;    // e.g., "IN"
+  aadhaarHash: string;    // hashToField of the Aadhaar number, decimal
+  identitySecret: string; // Wallet-derived identity secret, decimal (see identitySecret.ts)
+}
+
+let session: { walletAddress: string; inputs: IdentityProofInputs } | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Remember proving inputs for a wallet until the tab closes
+ */
+export function setIdentityInputs(walletAddress: string, inputs: IdentityProofInputs) {
+  session = { walletAddress, inputs };
+  notify();
+}
+
+/**
+ * Proving inputs for a wallet, if this session has scanned its Aadhaar or unlocked its vault
+ */
+export function getIdentityInputs(walletAddress: string): IdentityProofInputs | null {
+  return session?.walletAddress === walletAddress ? session.inputs : null;
+}
+
+/**
+ * Forget the proving inputs
+ */
+export function clearIdentityInputs() {
+  session = null;
+  notify();
+}
+
+/**
+ * Get notified when the proving inputs are set or cleared; returns an unsubscribe function
+ */
+export function subscribeIdentitySession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,43 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import {
+  IdentityVaultError,
+  deleteIdentityVault,
+  hasIdentityVault,
+  sealIdentityVault,
+  unlockIdentityVault,
+} from './identityVault';
+import { getIdentityInputs } from './identitySession';
+import type { IdentityProofInputs } from './identitySession';
+
+// Deterministic like Ed25519: the same wallet signs the same message the same way
+const walletSigner = (secret: string) => async (message: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret + new TextDecoder().decode(message))));
+
+const INPUTS: IdentityProofInputs = {
+  dateOfBirth: '19900101',
+  nationality: 'IN',
+  aadhaarHash: '12345',
+  identitySecret: '67890',
+};
+
+describe('identity vault', () => {
+  it('seals and unlocks with the same wallet', async () => {
+    await sealIdentityVault('wallet-1', walletSigner('key-1'), INPUTS);
+    expect(await hasIdentityVault('wallet-1')).toBe(true);
+
+    expect(await unlockIdentityVault('wallet-1', walletSigner('key-1'))).toEqual(INPUTS);
+    expect(getIdentityInputs('wallet-1')).toEqual(INPUTS);
+  });
+
+  it('cannot be unlocked by a different signer', async () => {
+    await sealIdentityVault('wallet-2', walletSigner('key-2'), INPUTS);
+    await expect(unlockIdentityVault('wallet-2', walletSigner('other'))).rejects.toBeInstanceOf(IdentityVaultError);
+  });
+
+  it('is removed by deleteIdentityVault', async () => {
+    await sealIdentityVault('wallet-3', walletSigner('key-3'), INPUTS);
+    await deleteIdentityVault('wallet-3');
+    expect(await hasIdentityVault('wallet-3')).toBe(false);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Identity Vault
+ * Encrypted IndexedDB copy of the minimal witness data needed to re-prove later:
+ * date of birth, country, Aadhaar hash and identity secret
+ *
+ * The data is sealed with AES-GCM under a key derived (HKDF-SHA256) from the wallet's
+ * signature over a fixed message. Ed25519 signatures are deterministic, so the same
+ * wallet re-derives the same key; nothing secret is stored in the clear.
+ * Unlocking decrypts into the in-memory identity session until locked
+ */
+
+import { clearIdentityInputs, setIdentityInputs } from './identitySession';
+import type { IdentityProofInputs } from './identitySession';
+import { clearIdentitySecretCache } from './identitySecret';
+import { openDatabase } from './indexedDb';
+
+const DB_NAME = 'SolsticeVault';
+const DB_VERSION = 1;
+const STORE_NAME = 'vault';
+const VAULT_VERSION = 1;
+const HKDF_INFO = 'solstice-identity-vault/v1';
+
+export type SignMessage = (message: Uint8Array) => Promise<Uint8Array>;
+
+interface VaultRecord {
+  walletAddress: string;
+  version: number;
+  salt: number[];
+  iv: number[];
+  ciphertext: number[];
+  updatedAt: number;
+}
+
+interface VaultPayload {
+  dateOfBirth: string;
+  nationality: string;
+  aadhaarHash: string;
+  identitySecret: string;
+}
+
+/**
+ * Raised when the vault cannot be sealed or unlocked
+ */
+export class IdentityVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdentityVaultError';
+  }
+}
+
+/**
+ * Message the wallet signs to derive the vault key
+ * Domain-separated so the signature cannot be reused for anything else
+ */
+function vaultKeyMessage(walletAddress: string): Uint8Array {
+  return new TextEncoder().encode(
+    `Solstice Protocol: unlock identity vault\n` +
+    `Wallet: ${walletAddress}\n` +
+    `Version: ${VAULT_VERSION}\n` +
+    `Only sign this on the Solstice website.`
+  );
+}
+
+async function deriveVaultKey(
+  walletAddress: string,
+  signMessage: SignMessage,
+  salt: Uint8Array
+): Promise<CryptoKey> {
+  let signature: Uint8Array;
+  try {
+    signature = await signMessage(vaultKeyMessage(walletAddress));
+  } catch (error) {
+    console.error('Vault signature rejected:', error);
+    throw new IdentityVaultError('The wallet did not sign the vault unlock message.');
+  }
+
+  const keyMaterial = await crypto.subtle.importKey('raw', signature as BufferSource, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: salt as BufferSource, info: new TextEncoder().encode(HKDF_INFO) },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function openVaultDb(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      db.createObjectStore(STORE_NAME, { keyPath: 'walletAddress' });
+    }
+  });
+}
+
+async function vaultRequest<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openVaultDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction([STORE_NAME], mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Whether a vault has been sealed for this wallet on this device
+ */
+export async function hasIdentityVault(walletAddress: string): Promise<boolean> {
+  try {
+    const count = await vaultRequest('readonly', (store) => store.count(walletAddress));
+    return count > 0;
+  } catch (error) {
+    console.warn('Could not read identity vault:', error);
+    return false;
+  }
+}
+
+/**
+ * Encrypt the proving inputs into the vault and keep them unlocked for this session
+ */
+export async function sealIdentityVault(
+  walletAddress: string,
+  signMessage: SignMessage,
+  inputs: IdentityProofInputs
+): Promise<void> {
+  console.log('🔐 Sealing identity vault...');
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveVaultKey(walletAddress, signMessage, salt);
+
+  const payload: VaultPayload = {
+    dateOfBirth: inputs.dateOfBirth,
+    nationality: inputs.nationality,
+    aadhaarHash: inputs.aadhaarHash,
+    identitySecret: inputs.identitySecret,
+  };
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(walletAddress) },
+    key,
+    new TextEncoder().encode(JSON.stringify(payload))
+  );
+
+  const record: VaultRecord = {
+    walletAddress,
+    version: VAULT_VERSION,
+    salt: Array.from(salt),
+    iv: Array.from(iv),
+    ciphertext: Array.from(new Uint8Array(ciphertext)),
+    updatedAt: Date.now(),
+  };
+  await vaultRequest('readwrite', (store) => store.put(record));
+
+  setIdentityInputs(walletAddress, inputs);
+  console.log('✅ Identity vault sealed');
+}
+
+/**
+ * Decrypt the vault into the identity session
+ */
+export async function unlockIdentityVault(
+  walletAddress: string,
+  signMessage: SignMessage
+): Promise<IdentityProofInputs> {
+  const record = await vaultRequest<VaultRecord | undefined>('readonly', (store) => store.get(walletAddress));
+  if (!record) {
+    throw new IdentityVaultError('No identity vault exists for this wallet. Scan your Aadhaar QR to create one.');
+  }
+  if (record.version !== VAULT_VERSION) {
+    throw new IdentityVaultError(`Unsupported identity vault version: ${record.version}`);
+  }
+
+  console.log('🔓 Unlocking identity vault...');
+  const key = await deriveVaultKey(walletAddress, signMessage, new Uint8Array(record.salt));
+
+  let payload: VaultPayload;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(record.iv), additionalData: new TextEncoder().encode(walletAddress) },
+      key,
+      new Uint8Array(record.ciphertext)
+    );
+    payload = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch (error) {
+    console.error('Vault decryption failed:', error);
+    throw new IdentityVaultError('Could not decrypt the identity vault with this wallet.');
+  }
+
+  const inputs: IdentityProofInputs = {
+    dateOfBirth: payload.dateOfBirth,
+    nationality: payload.nationality,
+    aadhaarHash: payload.aadhaarHash,
+    identitySecret: payload.identitySecret,
+  };
+  setIdentityInputs(walletAddress, inputs);
+  console.log('✅ Identity vault unlocked');
+  return inputs;
+}
+
+/**
+ * Drop the decrypted inputs from memory; the vault itself stays on disk
+ */
+export function lockIdentityVault() {
+  clearIdentityInputs();
+  clearIdentitySecretCache();
+  console.log('🔒 Identity vault locked');
+}
+
+/**
+ * Remove this wallet's vault from the device
+ */
+export async function deleteIdentityVault(walletAddress: string): Promise<void> {
+  lockIdentityVault();
+  await vaultRequest('readwrite', (store) => store.delete(walletAddress));
+}
@@ -0,0 +1,57 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { DatabaseBlockedError, openDatabase } from './indexedDb';
+
+const createStore = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains('items')) db.createObjectStore('items');
+};
+
+function openRaw(name: string, version: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => createStore(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('openDatabase', () => {
+  it('shares one connection per database', async () => {
+    const first = await openDatabase('shared', 1, createStore);
+    const second = await openDatabase('shared', 1, createStore);
+    expect(second).toBe(first);
+  });
+
+  it('runs the upgrade with the previous version', async () => {
+    const versions: number[] = [];
+    await openDatabase('upgraded', 3, (db, _transaction, oldVersion) => {
+      versions.push(oldVersion);
+      createStore(db);
+    });
+    expect(versions).toEqual([0]);
+  });
+
+  it('closes its connection so another tab can upgrade, then reopens', async () => {
+    const original = await openDatabase('versioned', 1, createStore);
+
+    const newer = await openRaw('versioned', 2);
+    expect(newer.version).toBe(2);
+    newer.close();
+
+    const reopened = await openDatabase('versioned', 2, createStore);
+    expect(reopened).not.toBe(original);
+    expect(reopened.version).toBe(2);
+  });
+
+  it('fails instead of hanging when an older connection blocks the upgrade', async () => {
+    const stale = await openRaw('blocked', 1);
+    stale.onversionchange = null; // An old tab that never closes
+
+    await expect(openDatabase('blocked', 2, createStore)).rejects.toBeInstanceOf(DatabaseBlockedError);
+
+    // Once the old tab goes away the next attempt succeeds
+    stale.close();
+    const db = await openDatabase('blocked', 2, createStore);
+    expect(db.version).toBe(2);
+  });
+});
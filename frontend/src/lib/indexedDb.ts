@@ -0,0 +1,76 @@
+/**
+ * IndexedDB
+ * One cached connection per database, shared by every caller in the tab
+ *
+ * The connection closes itself when another tab opens a newer schema version, so this
+ * tab never holds up an upgrade, and is reopened on next use. An upgrade blocked by an
+ * older tab that does not close fails with DatabaseBlockedError instead of hanging.
+ */
+
+export type DatabaseUpgrade = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => void;
+
+/**
+ * Raised when a schema upgrade is blocked by a connection open in another tab
+ */
+export class DatabaseBlockedError extends Error {
+  constructor(name: string) {
+    super(`${name} is being upgraded but is still open in another tab. Close other Solstice tabs and try again.`);
+    this.name = 'DatabaseBlockedError';
+  }
+}
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+function forget(name: string, connection: Promise<IDBDatabase>) {
+  if (connections.get(name) === connection) connections.delete(name);
+}
+
+/**
+ * Open a database once per tab, running `upgrade` when its version is raised
+ */
+export function openDatabase(name: string, version: number, upgrade: DatabaseUpgrade): Promise<IDBDatabase> {
+  const cached = connections.get(name);
+  if (cached) return cached;
+
+  const connection = new Promise<IDBDatabase>((resolve, reject) => {
+    let blocked = false;
+    const request = indexedDB.open(name, version);
+
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, request.transaction!, event.oldVersion);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) {
+        // The caller already gave up; do not hold on to a connection nobody uses
+        db.close();
+        return;
+      }
+      db.onversionchange = () => {
+        console.log(`${name} is being upgraded in another tab, closing this connection`);
+        db.close();
+        forget(name, connection);
+      };
+      // The browser may also close it, e.g. when site data is cleared
+      db.onclose = () => forget(name, connection);
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      forget(name, connection);
+      reject(request.error);
+    };
+
+    request.onblocked = () => {
+      console.warn(`${name} upgrade blocked by a connection in another tab`);
+      blocked = true;
+      forget(name, connection);
+      reject(new DatabaseBlockedError(name));
+    };
+  });
+
+  connections.set(name, connection);
+  return connection;
+}
+
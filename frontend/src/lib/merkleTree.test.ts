@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMerkleTree,
+  buildRegistryTree,
+  getMerkleProof,
+  getMerkleRoot,
+  verifyMerkleProof,
+} from './merkleTree';
+
+// Root of an empty depth-20 Poseidon tree with zero leaves, as used by Semaphore and Tornado Cash
+const EMPTY_ROOT = 15019797232609675441998260052101280400536945603062888308240081994073687793470n;
+
+// Depth-20 roots over the leaves 1, 2, 3 and 3, 2, 1, computed independently with circomlibjs
+const ROOT_123 = 16515060687372586954005116708756701165858436250976413590478766624125142800848n;
+const ROOT_321 = 2995272241476856363712681128618542472463662011874958925353357397249358907450n;
+
+describe('buildMerkleTree', () => {
+  it('has the known root when empty', async () => {
+    expect(getMerkleRoot(await buildMerkleTree())).toBe(EMPTY_ROOT);
+  });
+
+  it('has the known root for a set of leaves', async () => {
+    expect(getMerkleRoot(await buildMerkleTree([1n, 2n, 3n]))).toBe(ROOT_123);
+  });
+});
+
+describe('getMerkleProof', () => {
+  it('returns a path that verifies against the root', async () => {
+    const tree = await buildMerkleTree([1n, 2n, 3n]);
+    const proof = getMerkleProof(tree, 2);
+
+    expect(proof.leaf).toBe(3n);
+    expect(proof.pathIndices.slice(0, 3)).toEqual([0, 1, 0]);
+    expect(proof.pathElements[0]).toBe(tree.zeros[0]);
+    expect(proof.pathElements).toHaveLength(20);
+    await expect(verifyMerkleProof(ROOT_123, proof)).resolves.toBe(true);
+  });
+
+  it('does not verify against another root or for another leaf', async () => {
+    const proof = getMerkleProof(await buildMerkleTree([1n, 2n, 3n]), 1);
+
+    await expect(verifyMerkleProof(ROOT_321, proof)).resolves.toBe(false);
+    await expect(verifyMerkleProof(ROOT_123, { ...proof, leaf: 4n })).resolves.toBe(false);
+  });
+
+  it('rejects an index past the last leaf', async () => {
+    const tree = await buildMerkleTree([1n]);
+    expect(() => getMerkleProof(tree, 1)).toThrow(/out of range/);
+  });
+});
+
+describe('buildRegistryTree', () => {
+  it('appends in registration order and our commitment last', async () => {
+    expect(getMerkleRoot(await buildRegistryTree([1n, 2n], 3n))).toBe(ROOT_123);
+    expect(getMerkleRoot(await buildRegistryTree([3n, 2n], 1n))).toBe(ROOT_321);
+  });
+
+  it('does not append a commitment that is already registered', async () => {
+    const tree = await buildRegistryTree([1n, 2n, 3n], 2n);
+    expect(tree.layers[0]).toEqual([1n, 2n, 3n]);
+    expect(getMerkleRoot(tree)).toBe(ROOT_123);
+  });
+});
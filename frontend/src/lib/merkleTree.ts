@@ -0,0 +1,146 @@
+/**
+ * Incremental Merkle Tree
+ * Poseidon binary tree over registered identity commitments
+ * Its root is the merkleRoot public input of the uniqueness circuit and the
+ * merkle_root stored with each identity on-chain
+ */
+
+import type { Poseidon } from 'circomlibjs';
+import { getPoseidon } from './commitment';
+import { toField } from './hashToField';
+
+// 2^20 leaves is plenty for the registry while keeping paths short
+export const MERKLE_TREE_DEPTH = 20;
+
+export interface MerkleTree {
+  depth: number;
+  zeros: bigint[];      // zeros[level] is the root of an empty subtree at that level
+  layers: bigint[][];   // layers[0] holds the leaves, layers[depth] the root
+  hash: (left: bigint, right: bigint) => bigint;
+}
+
+export interface MerkleProof {
+  leaf: bigint;
+  leafIndex: number;
+  pathElements: bigint[];
+  pathIndices: number[]; // 0 when the node is a left child, 1 when it is a right child
+}
+
+function poseidonHasher(poseidon: Poseidon) {
+  return (left: bigint, right: bigint) => poseidon.F.toObject(poseidon([left, right]));
+}
+
+/**
+ * Build a tree from a list of leaves
+ */
+export async function buildMerkleTree(
+  leaves: bigint[] = [],
+  depth: number = MERKLE_TREE_DEPTH
+): Promise<MerkleTree> {
+  const hash = poseidonHasher(await getPoseidon());
+
+  const zeros = [0n];
+  for (let level = 1; level <= depth; level++) {
+    zeros.push(hash(zeros[level - 1], zeros[level - 1]));
+  }
+
+  const tree: MerkleTree = {
+    depth,
+    zeros,
+    layers: Array.from({ length: depth + 1 }, () => [] as bigint[]),
+    hash,
+  };
+
+  for (const leaf of leaves) {
+    insertLeaf(tree, leaf);
+  }
+  return tree;
+}
+
+/**
+ * Append a leaf and update the path above it, returning its index
+ */
+export function insertLeaf(tree: MerkleTree, leaf: bigint): number {
+  const index = tree.layers[0].length;
+  if (index >= 2 ** tree.depth) {
+    throw new Error(`Merkle tree is full (${2 ** tree.depth} leaves)`);
+  }
+
+  tree.layers[0].push(toField(leaf));
+
+  let nodeIndex = index;
+  for (let level = 0; level < tree.depth; level++) {
+    const parentIndex = nodeIndex >> 1;
+    const left = tree.layers[level][parentIndex * 2] ?? tree.zeros[level];
+    const right = tree.layers[level][parentIndex * 2 + 1] ?? tree.zeros[level];
+    tree.layers[level + 1][parentIndex] = tree.hash(left, right);
+    nodeIndex = parentIndex;
+  }
+
+  return index;
+}
+
+/**
+ * Current root (the empty-tree root before any insertions)
+ */
+export function getMerkleRoot(tree: MerkleTree): bigint {
+  return tree.layers[tree.depth][0] ?? tree.zeros[tree.depth];
+}
+
+/**
+ * Find the index of a leaf, or -1 if it is not in the tree
+ */
+export function indexOfLeaf(tree: MerkleTree, leaf: bigint): number {
+  return tree.layers[0].indexOf(toField(leaf));
+}
+
+/**
+ * Inclusion path for the leaf at an index
+ */
+export function getMerkleProof(tree: MerkleTree, leafIndex: number): MerkleProof {
+  if (leafIndex < 0 || leafIndex >= tree.layers[0].length) {
+    throw new Error(`Leaf index ${leafIndex} is out of range`);
+  }
+
+  const pathElements: bigint[] = [];
+  const pathIndices: number[] = [];
+  let nodeIndex = leafIndex;
+  for (let level = 0; level < tree.depth; level++) {
+    const isRight = nodeIndex & 1;
+    const sibling = tree.layers[level][isRight ? nodeIndex - 1 : nodeIndex + 1];
+    pathElements.push(sibling ?? tree.zeros[level]);
+    pathIndices.push(isRight);
+    nodeIndex >>= 1;
+  }
+
+  return { leaf: tree.layers[0][leafIndex], leafIndex, pathElements, pathIndices };
+}
+
+/**
+ * Check an inclusion path against a root
+ */
+export async function verifyMerkleProof(root: bigint, proof: MerkleProof): Promise<boolean> {
+  const hash = poseidonHasher(await getPoseidon());
+
+  let node = toField(proof.leaf);
+  proof.pathElements.forEach((sibling, level) => {
+    node = proof.pathIndices[level] ? hash(sibling, node) : hash(node, sibling);
+  });
+  return node === toField(root);
+}
+
+/**
+ * Build the registry tree from on-chain commitments plus our own
+ * The tree is append-only: commitments are inserted in on-chain registration order
+ * (see fetchRegisteredCommitments), and ours is appended unless it is already registered
+ */
+export async function buildRegistryTree(
+  registeredCommitments: bigint[],
+  ownCommitment: bigint
+): Promise<MerkleTree> {
+  const tree = await buildMerkleTree(registeredCommitments);
+  if (indexOfLeaf(tree, ownCommitment) === -1) {
+    insertLeaf(tree, ownCommitment);
+  }
+  return tree;
+}
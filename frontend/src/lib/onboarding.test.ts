@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  getCommitmentMetadata,
+  getVerifiedContacts,
+  recordContactVerification,
+  recordOnboardingCompletion,
+} from './onboarding';
+
+describe('commitment metadata', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('records contact matches on the registered commitment', () => {
+    recordOnboardingCompletion('wallet-1', 'uidai-signed', '0xabc');
+    recordContactVerification('wallet-1', 'mobile');
+    recordContactVerification('wallet-1', 'mobile');
+    recordContactVerification('wallet-1', 'email');
+
+    expect(getCommitmentMetadata('wallet-1')).toEqual({ commitment: '0xabc', contactMatches: ['mobile', 'email'] });
+    expect(getVerifiedContacts('wallet-1')).toEqual(['mobile', 'email']);
+  });
+
+  it('starts a new commitment without earlier matches', () => {
+    recordOnboardingCompletion('wallet-1', 'uidai-signed', '0xabc');
+    recordContactVerification('wallet-1', 'email');
+    recordOnboardingCompletion('wallet-1', 'uidai-signed', '0xdef');
+
+    expect(getVerifiedContacts('wallet-1')).toEqual([]);
+  });
+
+  it('records nothing before a commitment is registered', () => {
+    recordContactVerification('wallet-2', 'mobile');
+    expect(getCommitmentMetadata('wallet-2')).toBeNull();
+  });
+});
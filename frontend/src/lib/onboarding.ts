@@ -5,6 +5,17 @@
  * an Aadhaar identity to a Solana wallet.
  */
 
+import type { AadhaarTrustLevel } from './aadhaarParser';
+import type { AadhaarContactKind } from './aadhaarContact';
+
+/**
+ * What is known about the identity commitment a wallet registered, kept on this device
+ */
+export interface CommitmentMetadata {
+  commitment: string;                   // Hex, as registered on chain
+  contactMatches: AadhaarContactKind[]; // Contacts that matched the QR hashes; the values are never stored
+}
+
 /**
  * Check if a wallet has completed onboarding
  */
@@ -93,16 +104,68 @@ export function getOnboardingData(walletAddress: string) {
   return {
     isComplete: isOnboardingComplete(walletAddress),
     completedAt: localStorage.getItem(`solstice_onboarded_at_${walletAddress}`),
+    trustLevel: localStorage.getItem(`solstice_trust_level_${walletAddress}`) as AadhaarTrustLevel | null,
+    commitment: getCommitmentMetadata(walletAddress),
   };
 }
 
 /**
- * Store onboarding completion timestamp
+ * Store onboarding completion timestamp, how trusted the registered Aadhaar data was and
+ * the commitment registered from it
  */
-export function recordOnboardingCompletion(walletAddress: string): void {
+export function recordOnboardingCompletion(
+  walletAddress: string,
+  trustLevel?: AadhaarTrustLevel,
+  commitment?: string
+): void {
   setOnboardingComplete(walletAddress);
   localStorage.setItem(
     `solstice_onboarded_at_${walletAddress}`,
     new Date().toISOString()
   );
+  if (trustLevel) {
+    localStorage.setItem(`solstice_trust_level_${walletAddress}`, trustLevel);
+  }
+  if (commitment) {
+    saveCommitmentMetadata(walletAddress, { commitment, contactMatches: [] });
+  }
+}
+
+/**
+ * Metadata of the commitment registered by a wallet, null before onboarding
+ */
+export function getCommitmentMetadata(walletAddress: string): CommitmentMetadata | null {
+  const stored = localStorage.getItem(`solstice_commitment_${walletAddress}`);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as CommitmentMetadata;
+  } catch {
+    return null;
+  }
+}
+
+function saveCommitmentMetadata(walletAddress: string, metadata: CommitmentMetadata): void {
+  localStorage.setItem(`solstice_commitment_${walletAddress}`, JSON.stringify(metadata));
+}
+
+/**
+ * Contacts (mobile, email) the holder confirmed against their Aadhaar QR hashes
+ */
+export function getVerifiedContacts(walletAddress: string): AadhaarContactKind[] {
+  return getCommitmentMetadata(walletAddress)?.contactMatches ?? [];
+}
+
+/**
+ * Record on the registered commitment that a contact matched, as extra evidence binding
+ * the holder to the Aadhaar. Only the kind is kept, never the number or address.
+ */
+export function recordContactVerification(walletAddress: string, kind: AadhaarContactKind): void {
+  const metadata = getCommitmentMetadata(walletAddress);
+  if (!metadata) {
+    console.warn('⚠️ No registered commitment to record the contact match on');
+    return;
+  }
+  if (!metadata.contactMatches.includes(kind)) {
+    saveCommitmentMetadata(walletAddress, { ...metadata, contactMatches: [...metadata.contactMatches, kind] });
+  }
 }
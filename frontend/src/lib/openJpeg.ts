@@ -0,0 +1,68 @@
+/**
+ * OpenJPEG
+ * JPEG2000 decoding through the OpenJPEG WASM build, for browsers without native support
+ *
+ * The decoder (about 300 KB) is only downloaded the first time a photo needs it.
+ */
+
+import type { OpenJPEGModule } from '@cornerstonejs/codec-openjpeg/decodewasmjs';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, 8 bits per channel
+}
+
+let openJpeg: Promise<OpenJPEGModule> | null = null;
+
+function loadOpenJpeg(): Promise<OpenJPEGModule> {
+  if (!openJpeg) {
+    openJpeg = Promise.all([
+      import('@cornerstonejs/codec-openjpeg/decodewasmjs'),
+      import('@cornerstonejs/codec-openjpeg/decodewasm?url'),
+    ])
+      .then(([{ default: createModule }, { default: wasmUrl }]) => createModule({ locateFile: () => wasmUrl }))
+      .catch((error) => {
+        // Allow a later call to retry instead of caching the failure
+        openJpeg = null;
+        throw error;
+      });
+  }
+  return openJpeg;
+}
+
+/**
+ * Decode a bare JPEG2000 codestream to RGBA pixels
+ * Greyscale and RGB images are supported; samples deeper than 8 bits are scaled down
+ */
+export async function decodeJpeg2000(codestream: Uint8Array): Promise<DecodedImage> {
+  const { J2KDecoder } = await loadOpenJpeg();
+  const decoder = new J2KDecoder();
+  try {
+    decoder.getEncodedBuffer(codestream.length).set(codestream);
+    decoder.decode();
+
+    const { width, height, bitsPerSample, componentCount } = decoder.getFrameInfo();
+    if (componentCount !== 1 && componentCount !== 3) {
+      throw new Error(`Unsupported JPEG2000 component count: ${componentCount}`);
+    }
+
+    const decoded = decoder.getDecodedBuffer();
+    const samples = bitsPerSample > 8
+      ? new Uint16Array(decoded.buffer, decoded.byteOffset, width * height * componentCount)
+      : decoded;
+    const shift = Math.max(0, bitsPerSample - 8);
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let pixel = 0; pixel < width * height; pixel++) {
+      for (let channel = 0; channel < 3; channel++) {
+        const component = componentCount === 3 ? channel : 0;
+        data[pixel * 4 + channel] = samples[pixel * componentCount + component] >> shift;
+      }
+      data[pixel * 4 + 3] = 255;
+    }
+    return { width, height, data };
+  } finally {
+    decoder.delete();
+  }
+}
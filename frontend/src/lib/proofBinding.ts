@@ -0,0 +1,77 @@
+/**
+ * Proof Binding
+ * Ties a proof to the holder's wallet and one verifier request so it cannot be replayed
+ *
+ * The binding context is hashed to a field element and folded into the circuit's
+ * binding signal (commitmentHash or merkleRoot, see the manifest):
+ *   bound = Poseidon(anchor, H(context))
+ * where anchor is the value the signal would carry unbound. Verifiers recompute
+ * `bound` from the context they issued and the anchor shipped with the proof,
+ * and should check the anchor against the holder's on-chain identity
+ */
+
+import { getPoseidon } from './commitment';
+import { hashToField, toField } from './hashToField';
+import { getPublicSignal } from './circuitRegistry';
+import type { CircuitDefinition, ProofBinding, ProofBindingContext } from './circuitRegistry';
+
+const BINDING_DOMAIN = 'solstice-proof-binding/v1';
+
+/**
+ * Hash a binding context to a field element
+ * Fields are JSON-encoded as an array so no separator can be smuggled into a value
+ */
+export function hashBindingContext(context: ProofBindingContext): Promise<bigint> {
+  return hashToField(JSON.stringify([
+    BINDING_DOMAIN,
+    context.walletPublicKey,
+    context.challengeId,
+    context.nonce,
+    context.relyingPartyId,
+  ]));
+}
+
+/**
+ * Fold a binding context into an anchor value
+ */
+export async function bindAnchor(anchor: bigint, context: ProofBindingContext): Promise<bigint> {
+  const poseidon = await getPoseidon();
+  const bindingHash = await hashBindingContext(context);
+  return poseidon.F.toObject(poseidon([toField(anchor), bindingHash]));
+}
+
+/**
+ * Value to feed into the binding signal: bound when a context is given, the anchor otherwise
+ */
+export async function bindingSignalValue(
+  anchor: bigint,
+  context?: ProofBindingContext
+): Promise<bigint> {
+  return context ? bindAnchor(anchor, context) : anchor;
+}
+
+/**
+ * Check that two binding contexts describe the same request
+ */
+export function sameBindingContext(a: ProofBindingContext, b: ProofBindingContext): boolean {
+  return a.walletPublicKey === b.walletPublicKey
+    && a.challengeId === b.challengeId
+    && a.nonce === b.nonce
+    && a.relyingPartyId === b.relyingPartyId;
+}
+
+/**
+ * Check that a proof's binding signal matches its binding
+ * Does not check the context against what the verifier expects; see verifyBinding
+ */
+export async function bindingMatchesSignals(
+  circuit: CircuitDefinition,
+  publicSignals: string[],
+  binding: ProofBinding
+): Promise<boolean> {
+  const signal = getPublicSignal(circuit, publicSignals, circuit.bindingSignal);
+  if (signal === undefined) return false;
+
+  const expected = await bindAnchor(BigInt(binding.anchor), binding.context);
+  return BigInt(signal) === expected;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import manifest from '../../public/circuits/manifest.json';
+import type { CircuitDefinition, CircuitId, ProofBindingContext, ProofData } from './circuitRegistry';
+import {
+  ProofBundleError,
+  SignatureUnsupportedError,
+  bundleSigningMessage,
+  createProofBundle,
+  decodeProofBundle,
+  encodeProofBundle,
+  verifyProofBundle,
+} from './proofBundle';
+import { bindAnchor } from './proofBinding';
+import type { ProofBundle, ProofBundlePayload } from './proofBundle';
+
+vi.mock('./circuitRegistry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./circuitRegistry')>()),
+  getCircuit: async (id: CircuitId) => circuit(id),
+}));
+
+const circuits = manifest.circuits as CircuitDefinition[];
+const circuit = (id: CircuitId) => circuits.find((c) => c.id === id)!;
+
+async function walletKeypair() {
+  const keys = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey));
+  return {
+    address: new PublicKey(raw).toBase58(),
+    signMessage: async (message: Uint8Array) =>
+      new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, keys.privateKey, message as BufferSource)),
+  };
+}
+
+async function boundAgeProof(walletPublicKey: string): Promise<ProofData> {
+  const context: ProofBindingContext = { walletPublicKey, challengeId: 'challenge-1', nonce: 'nonce-1', relyingPartyId: 'app-1' };
+  const anchor = 123n;
+  return {
+    proof: { pi_a: ['1', '2', '1'], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+    // minAge, isAboveAge, commitmentHash
+    publicSignals: ['18', '1', (await bindAnchor(anchor, context)).toString()],
+    attributeType: 'age',
+    binding: { anchor: anchor.toString(), context },
+  };
+}
+
+// Sign a payload directly, as someone bypassing createProofBundle's checks would
+async function signedBy(wallet: Awaited<ReturnType<typeof walletKeypair>>, payload: ProofBundlePayload): Promise<ProofBundle> {
+  const signature = await wallet.signMessage(await bundleSigningMessage({ ...payload, holder: wallet.address }));
+  return { payload: { ...payload, holder: wallet.address }, signature: btoa(String.fromCharCode(...signature)) };
+}
+
+describe('verifyProofBundle', () => {
+  const expiresAt = Date.now() + 60_000;
+
+  it('accepts a bound bundle signed by the wallet it is bound to', async () => {
+    const wallet = await walletKeypair();
+    const proofData = await boundAgeProof(wallet.address);
+    const bundle = await createProofBundle(proofData, { holder: wallet.address, signMessage: wallet.signMessage, expiresAt });
+
+    const decoded = decodeProofBundle(encodeProofBundle(bundle));
+    expect(await verifyProofBundle(decoded)).toEqual(proofData);
+  });
+
+  it('rejects a tampered bundle', async () => {
+    const wallet = await walletKeypair();
+    const bundle = await createProofBundle(await boundAgeProof(wallet.address), {
+      holder: wallet.address, signMessage: wallet.signMessage, expiresAt,
+    });
+    bundle.payload.expiresAt += 1;
+
+    await expect(verifyProofBundle(bundle)).rejects.toThrow(/holder signature/);
+  });
+
+  it('rejects a bound proof re-signed by another wallet', async () => {
+    const owner = await walletKeypair();
+    const { payload } = await createProofBundle(await boundAgeProof(owner.address), {
+      holder: owner.address, signMessage: owner.signMessage, expiresAt,
+    });
+    const bundle = await signedBy(await walletKeypair(), payload);
+
+    await expect(verifyProofBundle(bundle)).rejects.toThrow(/different wallet/);
+  });
+
+  it('rejects an unbound proof re-signed by a stranger', async () => {
+    const owner = await walletKeypair();
+    const { payload } = await createProofBundle(await boundAgeProof(owner.address), {
+      holder: owner.address, signMessage: owner.signMessage, expiresAt,
+    });
+    // The stranger signs the proof as if it were unbound, with its anchor as the commitment
+    const bundle = await signedBy(await walletKeypair(), {
+      ...payload,
+      publicSignals: ['18', '1', '123'],
+      publicInputs: { minAge: '18', isAboveAge: '1', commitmentHash: '123' },
+      binding: null,
+    });
+
+    await expect(verifyProofBundle(bundle)).rejects.toThrow(/bound to the holder/);
+  });
+
+  it('refuses to bundle an unbound proof', async () => {
+    const wallet = await walletKeypair();
+    const unbound = { ...(await boundAgeProof(wallet.address)), binding: undefined };
+
+    await expect(createProofBundle(unbound, { holder: wallet.address, signMessage: wallet.signMessage, expiresAt }))
+      .rejects.toBeInstanceOf(ProofBundleError);
+  });
+
+  it('reports browsers without Ed25519 as unsupported rather than invalid', async () => {
+    const wallet = await walletKeypair();
+    const bundle = await createProofBundle(await boundAgeProof(wallet.address), {
+      holder: wallet.address, signMessage: wallet.signMessage, expiresAt,
+    });
+    const importKey = vi.spyOn(crypto.subtle, 'importKey')
+      .mockRejectedValueOnce(new DOMException('Unrecognized name.', 'NotSupportedError'));
+
+    const rejection = verifyProofBundle(bundle);
+    await expect(rejection).rejects.toBeInstanceOf(SignatureUnsupportedError);
+    await expect(rejection).rejects.toBeInstanceOf(ProofBundleError);
+    importKey.mockRestore();
+  });
+});
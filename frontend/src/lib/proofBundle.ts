@@ -0,0 +1,309 @@
+/**
+ * Proof Bundle
+ * Portable, versioned and holder-signed envelope for sharing a proof outside a challenge
+ *
+ * A bundle carries everything a verifier needs to check the proof on its own: circuit id
+ * and version, the SHA-256 of the verification key, labelled public signals, the binding
+ * and an expiry. The holder's wallet signs a digest of the canonical payload.
+ *
+ * The proof must be bound to the holder's wallet: an unbound proof could be copied out of
+ * a bundle and re-signed by any wallet as its own.
+ *
+ * Encodings:
+ *   compact  "solstice-bundle:1:" + base64url(deflate(JSON))  (QR codes, links)
+ *   json     pretty-printed JSON                                (humans, files)
+ */
+
+import pako from 'pako';
+import { PublicKey } from '@solana/web3.js';
+import { getCircuit, labelPublicSignals } from './circuitRegistry';
+import type { CircuitId, Groth16Proof, ProofBinding, ProofBindingContext, ProofData } from './circuitRegistry';
+import { sha256Hex } from './artifactIntegrity';
+import { bindingMatchesSignals } from './proofBinding';
+import type { SignMessage } from './identityVault';
+
+export const PROOF_BUNDLE_FORMAT = 'solstice-proof-bundle';
+export const PROOF_BUNDLE_VERSION = 1;
+const COMPACT_PREFIX = `solstice-bundle:${PROOF_BUNDLE_VERSION}:`;
+
+export type ProofBundleEncoding = 'compact' | 'json';
+
+export interface ProofBundlePayload {
+  format: typeof PROOF_BUNDLE_FORMAT;
+  version: typeof PROOF_BUNDLE_VERSION;
+  circuit: { id: CircuitId; version: string; vkeySha256: string };
+  proof: Groth16Proof;
+  publicSignals: string[];
+  publicInputs: Record<string, string>; // publicSignals labelled with their circuit names
+  binding: ProofBinding | null;
+  holder: string;                       // Wallet address (base58) that signed the bundle
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface ProofBundle {
+  payload: ProofBundlePayload;
+  signature: string; // base64 Ed25519 signature of bundleSigningMessage(payload)
+}
+
+/**
+ * Raised when a bundle cannot be decoded or fails validation
+ */
+export class ProofBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProofBundleError';
+  }
+}
+
+/**
+ * Raised when this browser's WebCrypto cannot check Ed25519 signatures, so the bundle
+ * can be neither accepted nor rejected here
+ */
+export class SignatureUnsupportedError extends ProofBundleError {
+  constructor() {
+    super('This browser cannot check Ed25519 signatures. Open the proof in a current version of Chrome, Firefox or Safari.');
+    this.name = 'SignatureUnsupportedError';
+  }
+}
+
+/**
+ * JSON with object keys sorted, so the signed digest does not depend on key order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Message the holder's wallet signs: a short, readable line plus the payload digest
+ */
+export async function bundleSigningMessage(payload: ProofBundlePayload): Promise<Uint8Array> {
+  const digest = await sha256Hex(new TextEncoder().encode(canonicalJson(payload)));
+  return new TextEncoder().encode(
+    `Solstice Protocol: share ${payload.circuit.id} proof\n` +
+    `Bundle: ${digest}`
+  );
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+/**
+ * Binding context for a proof generated to be shared in a bundle
+ * There is no verifier request, so a fresh id and nonce stand in for one
+ */
+export function bundleBindingContext(holder: string): ProofBindingContext {
+  return {
+    walletPublicKey: holder,
+    challengeId: `bundle-${crypto.randomUUID()}`,
+    nonce: crypto.randomUUID(),
+    relyingPartyId: PROOF_BUNDLE_FORMAT,
+  };
+}
+
+/**
+ * Reject a proof that is not bound to the wallet sharing it
+ */
+function assertBoundToHolder(
+  binding: ProofBinding | null | undefined,
+  holder: string
+): asserts binding is ProofBinding {
+  if (!binding) {
+    throw new ProofBundleError('Only proofs bound to the holder\'s wallet can be shared in a bundle');
+  }
+  if (binding.context.walletPublicKey !== holder) {
+    throw new ProofBundleError('The bundle was signed by a different wallet than the one its proof is bound to');
+  }
+}
+
+/**
+ * Wrap a proof bound to the holder (see bundleBindingContext) in a bundle signed by the holder's wallet
+ */
+export async function createProofBundle(
+  proofData: ProofData,
+  options: {
+    holder: string;
+    signMessage: SignMessage;
+    expiresAt: number;
+  }
+): Promise<ProofBundle> {
+  assertBoundToHolder(proofData.binding, options.holder);
+  const circuit = await getCircuit(proofData.attributeType);
+
+  const payload: ProofBundlePayload = {
+    format: PROOF_BUNDLE_FORMAT,
+    version: PROOF_BUNDLE_VERSION,
+    circuit: { id: circuit.id, version: circuit.version, vkeySha256: circuit.sha256.vkey.toLowerCase() },
+    proof: proofData.proof,
+    publicSignals: proofData.publicSignals,
+    publicInputs: labelPublicSignals(circuit, proofData.publicSignals),
+    binding: proofData.binding ?? null,
+    holder: options.holder,
+    issuedAt: Date.now(),
+    expiresAt: options.expiresAt,
+  };
+
+  const signature = await options.signMessage(await bundleSigningMessage(payload));
+  return { payload, signature: bytesToBase64(signature) };
+}
+
+/**
+ * Serialize a bundle
+ */
+export function encodeProofBundle(bundle: ProofBundle, encoding: ProofBundleEncoding = 'compact'): string {
+  if (encoding === 'json') {
+    return JSON.stringify(bundle, null, 2);
+  }
+  const deflated: Uint8Array = pako.deflate(new TextEncoder().encode(JSON.stringify(bundle)));
+  return COMPACT_PREFIX + toBase64Url(deflated);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * Check a decoded value has the bundle shape
+ */
+function assertBundleSchema(value: unknown): asserts value is ProofBundle {
+  const bundle = value as ProofBundle;
+  const payload = bundle?.payload;
+  const fail = (field: string) => { throw new ProofBundleError(`Invalid proof bundle: ${field}`); };
+
+  if (!payload || typeof payload !== 'object') fail('missing payload');
+  if (typeof bundle.signature !== 'string') fail('missing signature');
+  if (payload.format !== PROOF_BUNDLE_FORMAT) fail('unknown format');
+  if (payload.version !== PROOF_BUNDLE_VERSION) fail(`unsupported version ${payload.version}`);
+  if (!payload.circuit || !['age', 'nationality', 'uniqueness'].includes(payload.circuit.id)) fail('circuit.id');
+  if (typeof payload.circuit.version !== 'string') fail('circuit.version');
+  if (!/^[0-9a-f]{64}$/.test(payload.circuit.vkeySha256)) fail('circuit.vkeySha256');
+  if (!payload.proof || !Array.isArray(payload.proof.pi_a) || !Array.isArray(payload.proof.pi_b)
+    || !Array.isArray(payload.proof.pi_c)) fail('proof');
+  if (!isStringArray(payload.publicSignals)) fail('publicSignals');
+  if (!payload.publicInputs || typeof payload.publicInputs !== 'object') fail('publicInputs');
+  if (payload.binding !== null && (typeof payload.binding?.anchor !== 'string' || !payload.binding.context)) {
+    fail('binding');
+  }
+  if (typeof payload.holder !== 'string') fail('holder');
+  if (typeof payload.issuedAt !== 'number' || typeof payload.expiresAt !== 'number') fail('timestamps');
+}
+
+/**
+ * Parse either encoding; validates the schema but not the signature (see verifyProofBundle)
+ */
+export function decodeProofBundle(text: string): ProofBundle {
+  const trimmed = text.trim();
+  let parsed: unknown;
+
+  try {
+    if (trimmed.startsWith(COMPACT_PREFIX)) {
+      const inflated: Uint8Array = pako.inflate(fromBase64Url(trimmed.slice(COMPACT_PREFIX.length)));
+      parsed = JSON.parse(new TextDecoder().decode(inflated));
+    } else if (trimmed.startsWith('{')) {
+      parsed = JSON.parse(trimmed);
+    } else {
+      throw new ProofBundleError('Not a Solstice proof bundle');
+    }
+  } catch (error) {
+    if (error instanceof ProofBundleError) throw error;
+    throw new ProofBundleError('Could not decode proof bundle');
+  }
+
+  assertBundleSchema(parsed);
+  return parsed;
+}
+
+async function verifyHolderSignature(bundle: ProofBundle): Promise<boolean> {
+  let key: CryptoKey;
+  try {
+    const publicKey = new PublicKey(bundle.payload.holder).toBytes();
+    key = await crypto.subtle.importKey('raw', publicKey as BufferSource, { name: 'Ed25519' }, false, ['verify']);
+  } catch (error) {
+    if ((error as DOMException)?.name === 'NotSupportedError') {
+      throw new SignatureUnsupportedError();
+    }
+    console.error('Bundle holder key is invalid:', error);
+    return false;
+  }
+
+  try {
+    return await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      key,
+      base64ToBytes(bundle.signature) as BufferSource,
+      (await bundleSigningMessage(bundle.payload)) as BufferSource
+    );
+  } catch (error) {
+    console.error('Bundle signature check failed:', error);
+    return false;
+  }
+}
+
+/**
+ * Check a bundle's signature, expiry, circuit and binding
+ * Does not verify the Groth16 proof itself; pass the result to verifyProofLocally for that
+ * Throws SignatureUnsupportedError when the browser cannot check the holder signature
+ */
+export async function verifyProofBundle(bundle: ProofBundle, now: number = Date.now()): Promise<ProofData> {
+  const { payload } = bundle;
+
+  if (!(await verifyHolderSignature(bundle))) {
+    throw new ProofBundleError('The holder signature does not match the bundle');
+  }
+  // The proof was generated for one wallet; only that wallet may share it
+  assertBoundToHolder(payload.binding, payload.holder);
+  if (payload.expiresAt <= now) {
+    throw new ProofBundleError('This proof bundle has expired');
+  }
+
+  const circuit = await getCircuit(payload.circuit.id);
+  if (payload.circuit.vkeySha256 !== circuit.sha256.vkey.toLowerCase()) {
+    throw new ProofBundleError(
+      `The bundle was made for ${payload.circuit.id} circuit ${payload.circuit.version}, ` +
+      `which does not match the verification key in use (${circuit.version})`
+    );
+  }
+
+  const labels = labelPublicSignals(circuit, payload.publicSignals);
+  if (payload.publicSignals.length !== circuit.publicSignals.length
+    || canonicalJson(labels) !== canonicalJson(payload.publicInputs)) {
+    throw new ProofBundleError('The bundle public inputs do not match its public signals');
+  }
+
+  if (!(await bindingMatchesSignals(circuit, payload.publicSignals, payload.binding))) {
+    throw new ProofBundleError('The bundle binding does not match its public signals');
+  }
+
+  return {
+    proof: payload.proof,
+    publicSignals: payload.publicSignals,
+    attributeType: payload.circuit.id,
+    binding: payload.binding,
+  };
+}
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProofData } from './circuitRegistry';
+import {
+  DEFAULT_EXPIRY_POLICY,
+  getExpiryPolicy,
+  proofExpiresAt,
+  proofExpiryStatus,
+  setExpiryPolicy,
+  startExpiryScheduler,
+} from './proofExpiry';
+import { listProofs } from './proofStore';
+import type { StoredProof } from './proofStore';
+
+vi.mock('./proofStore', () => ({ listProofs: vi.fn() }));
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = Date.UTC(2026, 0, 1);
+
+const PROOF = { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' };
+const BINDING = {
+  context: { walletPublicKey: 'wallet-1', challengeId: 'challenge-1', nonce: 'nonce-1', relyingPartyId: 'app-1' },
+  anchor: '123',
+};
+
+function proofData(attributeType: ProofData['attributeType'], bound = false): ProofData {
+  return { proof: PROOF, publicSignals: [], attributeType, ...(bound ? { binding: BINDING } : {}) };
+}
+
+function record(id: string, expiresAt: number, bound = false): StoredProof {
+  return {
+    id,
+    walletAddress: 'wallet-1',
+    type: 'age',
+    params: 'minAge=18',
+    proof: PROOF,
+    publicSignals: [],
+    ...(bound ? { binding: BINDING } : {}),
+    generatedAt: expiresAt - 30 * DAY_MS,
+    expiresAt,
+  };
+}
+
+beforeEach(() => localStorage.clear());
+
+describe('proofExpiresAt', () => {
+  it('uses the lifetime of the proof type', () => {
+    expect(proofExpiresAt(proofData('age'), NOW)).toBe(NOW + 30 * DAY_MS);
+    expect(proofExpiresAt(proofData('nationality'), NOW)).toBe(NOW + 14 * DAY_MS);
+    expect(proofExpiresAt(proofData('uniqueness'), NOW)).toBe(NOW + 7 * DAY_MS);
+  });
+
+  it('gives bound proofs the short bound lifetime whatever their type', () => {
+    expect(proofExpiresAt(proofData('age', true), NOW)).toBe(NOW + HOUR_MS);
+    expect(proofExpiresAt(proofData('uniqueness', true), NOW)).toBe(NOW + HOUR_MS);
+  });
+});
+
+describe('proofExpiryStatus', () => {
+  it('counts a proof as expiring soon from exactly the window before expiry', () => {
+    const expiresAt = NOW + DAY_MS;
+    expect(proofExpiryStatus({ expiresAt }, NOW - 1)).toBe('valid');
+    expect(proofExpiryStatus({ expiresAt }, NOW)).toBe('expiring-soon');
+    expect(proofExpiryStatus({ expiresAt }, expiresAt - 1)).toBe('expiring-soon');
+    expect(proofExpiryStatus({ expiresAt }, expiresAt)).toBe('expired');
+  });
+});
+
+describe('getExpiryPolicy', () => {
+  it('applies saved overrides to the defaults', () => {
+    setExpiryPolicy({ autoRegenerate: true, ttlMs: { ...DEFAULT_EXPIRY_POLICY.ttlMs, age: DAY_MS } });
+    expect(getExpiryPolicy()).toEqual({
+      ...DEFAULT_EXPIRY_POLICY,
+      autoRegenerate: true,
+      ttlMs: { ...DEFAULT_EXPIRY_POLICY.ttlMs, age: DAY_MS },
+    });
+  });
+
+  it('falls back to the defaults for malformed saved fields', () => {
+    localStorage.setItem('solstice_expiry_policy', JSON.stringify({
+      ttlMs: { age: 'forever', nationality: -1, uniqueness: DAY_MS },
+      boundTtlMs: null,
+      expiringSoonMs: '1h',
+      autoRegenerate: 'yes',
+    }));
+
+    const policy = getExpiryPolicy();
+    expect(policy).toEqual({ ...DEFAULT_EXPIRY_POLICY, ttlMs: { ...DEFAULT_EXPIRY_POLICY.ttlMs, uniqueness: DAY_MS } });
+    expect(proofExpiresAt(proofData('age'), NOW, policy)).toBe(NOW + 30 * DAY_MS);
+  });
+
+  it('falls back to the defaults for unreadable JSON', () => {
+    localStorage.setItem('solstice_expiry_policy', '{');
+    expect(getExpiryPolicy()).toEqual(DEFAULT_EXPIRY_POLICY);
+  });
+});
+
+describe('startExpiryScheduler', () => {
+  const INTERVAL_MS = 60_000;
+  const expired = record('expired', NOW - 1);
+  const expiringSoon = record('expiring-soon', NOW + HOUR_MS);
+  const valid = record('valid', NOW + 10 * DAY_MS);
+  const bound = record('bound', NOW - 1, true);
+
+  let stop: () => void = () => {};
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    vi.mocked(listProofs).mockResolvedValue([expired, expiringSoon, valid, bound]);
+    setExpiryPolicy({ autoRegenerate: true });
+  });
+
+  afterEach(() => {
+    stop();
+    vi.useRealTimers();
+  });
+
+  it('reports every record with its status', async () => {
+    const onCheck = vi.fn();
+    stop = startExpiryScheduler('wallet-1', { intervalMs: INTERVAL_MS, onCheck });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(listProofs).toHaveBeenCalledWith('wallet-1', { includeExpired: true });
+    expect(onCheck.mock.calls[0][0].map((r: { id: string; expiryStatus: string }) => [r.id, r.expiryStatus])).toEqual([
+      ['expired', 'expired'],
+      ['expiring-soon', 'expiring-soon'],
+      ['valid', 'valid'],
+      ['bound', 'expired'],
+    ]);
+  });
+
+  it('renews expired and expiring unbound proofs, skipping bound ones', async () => {
+    const regenerate = vi.fn().mockResolvedValue(undefined);
+    stop = startExpiryScheduler('wallet-1', { intervalMs: INTERVAL_MS, regenerate });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(regenerate.mock.calls.map(([r]) => r.id)).toEqual(['expired', 'expiring-soon']);
+  });
+
+  it('does not renew when auto-regeneration is off', async () => {
+    setExpiryPolicy({ autoRegenerate: false });
+    const onCheck = vi.fn();
+    const regenerate = vi.fn().mockResolvedValue(undefined);
+    stop = startExpiryScheduler('wallet-1', { intervalMs: INTERVAL_MS, onCheck, regenerate });
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+
+    expect(onCheck).toHaveBeenCalledTimes(2);
+    expect(regenerate).not.toHaveBeenCalled();
+  });
+
+  it('does not start a second renewal of a record still being renewed', async () => {
+    vi.mocked(listProofs).mockResolvedValue([expired]);
+    let finish: () => void = () => {};
+    const regenerate = vi.fn(() => new Promise<void>((resolve) => { finish = resolve; }));
+    stop = startExpiryScheduler('wallet-1', { intervalMs: INTERVAL_MS, regenerate });
+
+    await vi.advanceTimersByTimeAsync(3 * INTERVAL_MS);
+    expect(regenerate).toHaveBeenCalledTimes(1);
+
+    finish();
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(regenerate).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops checking and renewing once stopped', async () => {
+    const onCheck = vi.fn();
+    let finish: () => void = () => {};
+    const regenerate = vi.fn(() => new Promise<void>((resolve) => { finish = resolve; }));
+    stop = startExpiryScheduler('wallet-1', { intervalMs: INTERVAL_MS, onCheck, regenerate });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(regenerate).toHaveBeenCalledTimes(1);
+
+    stop();
+    finish();
+    await vi.advanceTimersByTimeAsync(3 * INTERVAL_MS);
+
+    // The renewal under way finishes, but the next due record and later checks never start
+    expect(regenerate).toHaveBeenCalledTimes(1);
+    expect(onCheck).toHaveBeenCalledTimes(1);
+  });
+});
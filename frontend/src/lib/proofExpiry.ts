@@ -0,0 +1,175 @@
+/**
+ * Proof Expiry
+ * Per-type expiry policy for stored proofs and a scheduler that tracks
+ * which proofs are expired or expiring soon, optionally renewing them in the background
+ */
+
+import type { CircuitId, ProofData } from './circuitRegistry';
+import { listProofs } from './proofStore';
+import type { StoredProof } from './proofStore';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const POLICY_KEY = 'solstice_expiry_policy';
+
+export interface ProofExpiryPolicy {
+  ttlMs: Record<CircuitId, number>; // Lifetime of unbound proofs by type
+  boundTtlMs: number;               // Proofs bound to one challenge are only useful briefly
+  expiringSoonMs: number;           // Window before expiry in which a proof counts as expiring soon
+  autoRegenerate: boolean;          // Renew expiring proofs in the background when identity data is unlocked
+}
+
+export const DEFAULT_EXPIRY_POLICY: ProofExpiryPolicy = {
+  ttlMs: {
+    age: 30 * DAY_MS,        // Age only ever moves past a threshold, never back
+    nationality: 14 * DAY_MS,
+    uniqueness: 7 * DAY_MS,  // Tied to the registry root, which changes as others register
+  },
+  boundTtlMs: HOUR_MS,
+  expiringSoonMs: DAY_MS,
+  autoRegenerate: false,
+};
+
+export type ProofExpiryStatus = 'valid' | 'expiring-soon' | 'expired';
+
+const isDuration = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Apply the well-formed fields of `overrides` to a policy
+ * Anything else (e.g. a hand-edited non-numeric TTL, which would make expiresAt NaN) keeps its current value
+ */
+function mergePolicy(policy: ProofExpiryPolicy, overrides: unknown): ProofExpiryPolicy {
+  if (typeof overrides !== 'object' || overrides === null) return policy;
+  const { ttlMs, boundTtlMs, expiringSoonMs, autoRegenerate } = overrides as Record<string, unknown>;
+  const ttlOverrides = typeof ttlMs === 'object' && ttlMs !== null ? ttlMs as Record<string, unknown> : {};
+
+  return {
+    ttlMs: Object.fromEntries(
+      Object.entries(policy.ttlMs).map(([type, ttl]) => {
+        const override = ttlOverrides[type];
+        return [type, isDuration(override) ? override : ttl];
+      })
+    ) as Record<CircuitId, number>,
+    boundTtlMs: isDuration(boundTtlMs) ? boundTtlMs : policy.boundTtlMs,
+    expiringSoonMs: isDuration(expiringSoonMs) ? expiringSoonMs : policy.expiringSoonMs,
+    autoRegenerate: typeof autoRegenerate === 'boolean' ? autoRegenerate : policy.autoRegenerate,
+  };
+}
+
+/**
+ * Current expiry policy: the defaults with any valid saved overrides
+ */
+export function getExpiryPolicy(): ProofExpiryPolicy {
+  try {
+    return mergePolicy(DEFAULT_EXPIRY_POLICY, JSON.parse(localStorage.getItem(POLICY_KEY) || '{}'));
+  } catch {
+    return DEFAULT_EXPIRY_POLICY;
+  }
+}
+
+/**
+ * Save policy overrides; applies to proofs stored from now on
+ */
+export function setExpiryPolicy(overrides: Partial<ProofExpiryPolicy>): ProofExpiryPolicy {
+  const next = mergePolicy(getExpiryPolicy(), overrides);
+  localStorage.setItem(POLICY_KEY, JSON.stringify(next));
+  return next;
+}
+
+/**
+ * Expiry time for a proof generated at `generatedAt`
+ */
+export function proofExpiresAt(
+  proofData: ProofData,
+  generatedAt: number,
+  policy: ProofExpiryPolicy = getExpiryPolicy()
+): number {
+  const ttl = proofData.binding ? policy.boundTtlMs : policy.ttlMs[proofData.attributeType];
+  return generatedAt + ttl;
+}
+
+/**
+ * Status of a stored proof at `now`
+ */
+export function proofExpiryStatus(
+  record: Pick<StoredProof, 'expiresAt'>,
+  now: number = Date.now(),
+  policy: ProofExpiryPolicy = getExpiryPolicy()
+): ProofExpiryStatus {
+  if (record.expiresAt <= now) return 'expired';
+  if (record.expiresAt - now <= policy.expiringSoonMs) return 'expiring-soon';
+  return 'valid';
+}
+
+export interface ExpirySchedulerOptions {
+  intervalMs?: number;
+  // Called after every check with all of the wallet's records and their status
+  onCheck?: (records: Array<StoredProof & { expiryStatus: ProofExpiryStatus }>) => void;
+  // Renews one record; called for unbound proofs that are expired or expiring soon
+  regenerate?: (record: StoredProof) => Promise<void>;
+}
+
+/**
+ * Periodically check a wallet's proofs; returns a function that stops the scheduler
+ * Renewals run one at a time and a record is never renewed twice concurrently
+ */
+export function startExpiryScheduler(
+  walletAddress: string,
+  options: ExpirySchedulerOptions = {}
+): () => void {
+  const intervalMs = options.intervalMs ?? 5 * 60 * 1000;
+  const renewing = new Set<string>();
+  let stopped = false;
+
+  // List the wallet's records with their status and report them
+  const report = async () => {
+    const records = await listProofs(walletAddress, { includeExpired: true });
+    const policy = getExpiryPolicy();
+    const now = Date.now();
+    const withStatus = records.map((record) => ({
+      ...record,
+      expiryStatus: proofExpiryStatus(record, now, policy),
+    }));
+    if (!stopped) options.onCheck?.(withStatus);
+    return { withStatus, policy };
+  };
+
+  const check = async () => {
+    if (stopped) return;
+
+    try {
+      const { withStatus, policy } = await report();
+      if (stopped || !options.regenerate || !policy.autoRegenerate) return;
+
+      // Bound proofs answer one past challenge; renewing them is pointless
+      const due = withStatus.filter((record) =>
+        record.expiryStatus !== 'valid' && !record.binding && !renewing.has(record.id)
+      );
+      for (const record of due) {
+        if (stopped) return;
+        renewing.add(record.id);
+        try {
+          console.log(`⏰ Renewing ${record.type} proof (${record.expiryStatus})`);
+          await options.regenerate(record);
+        } catch (error) {
+          console.warn(`Background renewal of ${record.id} failed:`, error);
+        } finally {
+          renewing.delete(record.id);
+        }
+      }
+
+      if (due.length > 0) await report();
+    } catch (error) {
+      console.warn('Proof expiry check failed:', error);
+    }
+  };
+
+  check();
+  const timer = setInterval(check, intervalMs);
+
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
@@ -2,36 +2,32 @@
  * Browser-based ZK Proof Generator
  * Generates Groth16 proofs locally using snarkjs
  * All proof generation happens client-side for privacy
+ * Proving runs in a Web Worker pool (see proverPool.ts) so the UI stays responsive
  */
 
 // @ts-ignore
 import * as snarkjs from 'snarkjs';
-// @ts-ignore
-import { buildPoseidon } from 'circomlibjs';
+import { proveInWorker, isProofCancelled } from './proverPool';
+import type { ProveOptions, ProofStage } from './proverPool';
+import { getCircuit, getPublicSignal } from './circuitRegistry';
+import type { CircuitId, ProofBindingContext, ProofData } from './circuitRegistry';
+import { ArtifactIntegrityError } from './artifactIntegrity';
+import { loadProvingArtifacts, loadVerificationKey } from './artifactCache';
+import { computeIdentityCommitment, requireCountryCode } from './commitment';
+import { deriveNullifier, fieldToHex } from './hashToField';
+import { buildRegistryTree, getMerkleRoot } from './merkleTree';
+import { bindingSignalValue } from './proofBinding';
+import type { IdentityProofInputs } from './identitySession';
+import { formatProofParams, listProofs, putProofs, toProofData } from './proofStore';
+import { proofExpiresAt } from './proofExpiry';
 
-// Circuit artifact paths (loaded from public directory)
-const CIRCUITS = {
-  age: {
-    wasm: '/circuits/age_proof_js/age_proof.wasm',
-    zkey: '/circuits/age_proof_final.zkey',
-    vkey: '/circuits/age_proof_verification_key.json'
-  },
-  nationality: {
-    wasm: '/circuits/nationality_proof_js/nationality_proof.wasm',
-    zkey: '/circuits/nationality_proof_final.zkey',
-    vkey: '/circuits/nationality_proof_verification_key.json'
-  },
-  uniqueness: {
-    wasm: '/circuits/uniqueness_proof_js/uniqueness_proof.wasm',
-    zkey: '/circuits/uniqueness_proof_final.zkey',
-    vkey: '/circuits/uniqueness_proof_verification_key.json'
-  }
-};
+export type { ProofData } from './circuitRegistry';
+
+// Age thresholds generated at onboarding so common age gates can be answered from storage
+export const STANDARD_AGE_THRESHOLDS = [16, 18, 21, 25, 60];
 
-export interface ProofData {
-  proof: any;
-  publicSignals: string[];
-  attributeType: string;
+export interface GenerateProofOptions extends ProveOptions {
+  binding?: ProofBindingContext; // Bind the proof to one wallet and verifier request
 }
 
 /**
@@ -40,7 +36,9 @@ export interface ProofData {
 export async function generateAgeProof(
   dateOfBirth: string, // DD/MM/YYYY format from Aadhaar or YYYYMMDD
   ageThreshold: number = 18,
-  nonce: string
+  identitySecret: bigint, // See identitySecret.ts
+  identityCommitment: bigint, // Poseidon commitment registered on-chain (see commitment.ts)
+  options: GenerateProofOptions = {}
 ): Promise<ProofData> {
   console.log(' Generating age proof...');
   console.log('   DOB:', dateOfBirth, 'Threshold:', ageThreshold);
@@ -82,25 +80,20 @@ export async function generateAgeProof(
     // Check if above threshold
     const isAboveAge = age >= ageThreshold ? 1 : 0;
     
-    // Simple commitment hash (in production, use proper Poseidon hash)
-    const commitmentHash = BigInt(nonce) % BigInt(2**32);
-    
     const input = {
       minAge: ageThreshold,
       isAboveAge: isAboveAge,
-      commitmentHash: commitmentHash.toString(),
+      commitmentHash: (await bindingSignalValue(identityCommitment, options.binding)).toString(),
       age: age,
-      identitySecret: nonce
+      identitySecret: identitySecret.toString()
     };
     
     console.log('   Input:', { minAge: ageThreshold, age, isAboveAge });
     console.log('   Generating proof (this may take 2-5 seconds)...');
     
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-      input,
-      CIRCUITS.age.wasm,
-      CIRCUITS.age.zkey
-    );
+    const circuit = await getCircuit('age');
+    const { wasm, zkey } = await loadProvingArtifacts(circuit);
+    const { proof, publicSignals } = await proveInWorker(input, wasm, zkey, options);
     
     console.log('Age proof generated!');
     console.log('   Proof size:', JSON.stringify(proof).length, 'bytes');
@@ -108,9 +101,11 @@ export async function generateAgeProof(
     return {
       proof,
       publicSignals,
-      attributeType: 'age'
+      attributeType: 'age',
+      binding: options.binding && { context: options.binding, anchor: identityCommitment.toString() }
     };
   } catch (error) {
+    if (isProofCancelled(error) || error instanceof ArtifactIntegrityError) throw error;
     console.error('Failed to generate age proof:', error);
     throw new Error('Age proof generation failed');
   }
@@ -122,46 +117,35 @@ export async function generateAgeProof(
 export async function generateNationalityProof(
   nationality: string, // e.g., 'IN' for India
   allowedNationality: string,
-  nonce: string
+  identitySecret: bigint, // See identitySecret.ts
+  identityCommitment: bigint, // Poseidon commitment registered on-chain (see commitment.ts)
+  options: GenerateProofOptions = {}
 ): Promise<ProofData> {
   console.log(' Generating nationality proof...');
   console.log('   Nationality:', nationality, 'Allowed:', allowedNationality);
   
   try {
     // Convert country codes to numbers (e.g., IN = 91 for India phone code)
-    const countryCodeMap: { [key: string]: number } = {
-      'IN': 91, // India
-      'US': 1,  // United States
-      'UK': 44, // United Kingdom
-      'CN': 86, // China
-      'JP': 81, // Japan
-    };
-    
-    const countryCode = countryCodeMap[nationality] || 91; // Default to India
-    const allowedCountryCode = countryCodeMap[allowedNationality] || 91;
+    const countryCode = requireCountryCode(nationality);
+    const allowedCountryCode = requireCountryCode(allowedNationality);
     
     // Check if nationality matches
     const isFromCountry = countryCode === allowedCountryCode ? 1 : 0;
     
-    // Simple commitment hash
-    const commitmentHash = BigInt(nonce) % BigInt(2**32);
-    
     const input = {
       allowedCountry: allowedCountryCode,
       isFromCountry: isFromCountry,
-      commitmentHash: commitmentHash.toString(),
+      commitmentHash: (await bindingSignalValue(identityCommitment, options.binding)).toString(),
       countryCode: countryCode,
-      identitySecret: nonce
+      identitySecret: identitySecret.toString()
     };
     
     console.log('   Input:', { allowedCountry: allowedCountryCode, countryCode, isFromCountry });
     console.log('   Generating proof (this may take 1-3 seconds)...');
     
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-      input,
-      CIRCUITS.nationality.wasm,
-      CIRCUITS.nationality.zkey
-    );
+    const circuit = await getCircuit('nationality');
+    const { wasm, zkey } = await loadProvingArtifacts(circuit);
+    const { proof, publicSignals } = await proveInWorker(input, wasm, zkey, options);
     
     console.log('Nationality proof generated!');
     console.log('   Proof size:', JSON.stringify(proof).length, 'bytes');
@@ -169,9 +153,11 @@ export async function generateNationalityProof(
     return {
       proof,
       publicSignals,
-      attributeType: 'nationality'
+      attributeType: 'nationality',
+      binding: options.binding && { context: options.binding, anchor: identityCommitment.toString() }
     };
   } catch (error) {
+    if (isProofCancelled(error) || error instanceof ArtifactIntegrityError) throw error;
     console.error('Failed to generate nationality proof:', error);
     throw new Error('Nationality proof generation failed');
   }
@@ -181,54 +167,33 @@ export async function generateNationalityProof(
  * Generate uniqueness proof (proves user is unique without revealing identity)
  */
 export async function generateUniquenessProof(
-  aadhaarNumber: string,
-  nonce: string
+  aadhaarHash: bigint, // hashToField of the Aadhaar number; the number itself is never kept
+  identitySecret: bigint, // See identitySecret.ts
+  merkleRoot: bigint, // Root of the registry tree (see merkleTree.ts)
+  options: GenerateProofOptions = {}
 ): Promise<ProofData> {
   console.log(' Generating uniqueness proof...');
-  console.log('   Aadhaar (masked):', aadhaarNumber.slice(-4));
   
   try {
-    // Build Poseidon hash function
-    const poseidon = await buildPoseidon();
-    
-    // Convert Aadhaar string to numeric hash
-    let aadhaarHash = 0;
-    for (let i = 0; i < aadhaarNumber.length; i++) {
-      const char = aadhaarNumber.charCodeAt(i);
-      aadhaarHash = ((aadhaarHash << 5) - aadhaarHash) + char;
-      aadhaarHash = aadhaarHash & aadhaarHash; // Convert to 32-bit integer
-    }
-    aadhaarHash = Math.abs(aadhaarHash);
-    
-    // Convert nonce to identity secret (numeric)
-    const identitySecret = Math.abs(parseInt(nonce.substring(0, 10))) % (2**31);
-    
     // Generate nullifier using Poseidon hash (matches circuit)
-    const nullifierHash = poseidon([identitySecret, aadhaarHash]);
-    const nullifier = poseidon.F.toObject(nullifierHash);
-    
-    // Simplified merkle root (in production, would be from actual merkle tree)
-    const merkleRoot = (identitySecret + aadhaarHash) % (2**31);
+    const nullifier = await deriveNullifier(identitySecret, aadhaarHash);
     
     const input = {
       nullifier: nullifier.toString(),
-      merkleRoot: merkleRoot.toString(),
+      merkleRoot: (await bindingSignalValue(merkleRoot, options.binding)).toString(),
       identitySecret: identitySecret.toString(),
       aadhaarHash: aadhaarHash.toString()
     };
     
     console.log('   Input:', { 
       nullifier: nullifier.toString().substring(0, 20) + '...', 
-      aadhaarHash,
-      identitySecret 
+      aadhaarHash: aadhaarHash.toString().substring(0, 20) + '...'
     });
     console.log('   Generating proof (this may take <1 second)...');
     
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-      input,
-      CIRCUITS.uniqueness.wasm,
-      CIRCUITS.uniqueness.zkey
-    );
+    const circuit = await getCircuit('uniqueness');
+    const { wasm, zkey } = await loadProvingArtifacts(circuit);
+    const { proof, publicSignals } = await proveInWorker(input, wasm, zkey, options);
     
     console.log('Uniqueness proof generated!');
     console.log('   Proof size:', JSON.stringify(proof).length, 'bytes');
@@ -236,57 +201,123 @@ export async function generateUniquenessProof(
     return {
       proof,
       publicSignals,
-      attributeType: 'uniqueness'
+      attributeType: 'uniqueness',
+      binding: options.binding && { context: options.binding, anchor: merkleRoot.toString() }
     };
   } catch (error) {
+    if (isProofCancelled(error) || error instanceof ArtifactIntegrityError) throw error;
     console.error('Failed to generate uniqueness proof:', error);
     throw new Error('Uniqueness proof generation failed');
   }
 }
 
+/**
+ * Compute the identity commitment and registry root the proofs are anchored to
+ */
+export async function computeIdentityAnchors(
+  identityData: {
+    dateOfBirth: string;
+    nationality: string;
+    identitySecret: string;
+  },
+  registeredCommitments: bigint[] = []
+): Promise<{ identityCommitment: bigint; merkleRoot: bigint }> {
+  const identityCommitment = await computeIdentityCommitment({
+    identitySecret: BigInt(identityData.identitySecret),
+    dateOfBirth: identityData.dateOfBirth,
+    nationality: identityData.nationality,
+  });
+  
+  const registryTree = await buildRegistryTree(registeredCommitments, identityCommitment);
+  return { identityCommitment, merkleRoot: getMerkleRoot(registryTree) };
+}
+
 /**
  * Generate all proofs at once (age + nationality + uniqueness)
  * This is called automatically after QR scan
+ * Proofs are queued on the worker pool, which caps how many run concurrently
  */
 export async function generateAllProofs(
   identityData: {
     dateOfBirth: string;    // YYYYMMDD
     nationality: string;     // e.g., "IN"
-    aadhaarNumber: string;   // 12-digit
-    nonce: string;           // Random nonce from commitment
+    aadhaarHash: string;     // hashToField of the Aadhaar number, decimal
+    identitySecret: string;  // Wallet-derived identity secret, decimal (see identitySecret.ts)
   },
   config: {
     ageThreshold?: number;
+    ageThresholds?: number[]; // Extra thresholds; only those the holder meets are kept
     allowedNationality?: string;
+    registeredCommitments?: bigint[]; // Other identities' on-chain commitments for the registry tree
+  } = {},
+  options: {
+    onProgress?: (attributeType: CircuitId, stage: ProofStage) => void;
+    signal?: AbortSignal;
+    binding?: ProofBindingContext;
   } = {}
 ): Promise<{
-  ageProof: ProofData | null;
+  ageProof: ProofData | null; // Primary threshold; null when the holder is below it
+  ageProofs: Record<number, ProofData>; // Proofs for every requested threshold the holder meets
   nationalityProof: ProofData | null;
   uniquenessProof: ProofData | null;
+  commitment: string; // Hex identity commitment the proofs are bound to, for registerIdentity
+  merkleRoot: string;  // Hex registry root used by the uniqueness proof, for registerIdentity
   errors: string[];
 }> {
   console.log('Auto-generating all ZK proofs...');
   
+  const { identityCommitment, merkleRoot } = await computeIdentityAnchors(
+    identityData,
+    config.registeredCommitments || []
+  );
+  
   const results = {
+    commitment: fieldToHex(identityCommitment),
+    merkleRoot: fieldToHex(merkleRoot),
     ageProof: null as ProofData | null,
+    ageProofs: {} as Record<number, ProofData>,
     nationalityProof: null as ProofData | null,
     uniquenessProof: null as ProofData | null,
     errors: [] as string[]
   };
   
-  // Generate proofs in parallel for speed
+  // Queue all proofs at once; the worker pool decides how many run in parallel
   const proofPromises = [];
+  const optionsFor = (attributeType: CircuitId): GenerateProofOptions => ({
+    signal: options.signal,
+    binding: options.binding,
+    onProgress: (stage) => options.onProgress?.(attributeType, stage),
+  });
+  // Integrity failures affect every proof from that circuit, so they are rethrown rather than collected
+  let integrityError: ArtifactIntegrityError | null = null;
+  const recordError = (label: string) => (err: Error) => {
+    if (err instanceof ArtifactIntegrityError) integrityError = err;
+    results.errors.push(`${label}: ${err.message}`);
+  };
   
-  // Age proof
-  proofPromises.push(
-    generateAgeProof(
-      identityData.dateOfBirth,
-      config.ageThreshold || 18,
-      identityData.nonce
-    )
-      .then(proof => { results.ageProof = proof; })
-      .catch(err => { results.errors.push(`Age proof: ${err.message}`); })
-  );
+  // Age proofs, one per threshold
+  const primaryThreshold = config.ageThreshold || 18;
+  const ageThresholds = Array.from(new Set([primaryThreshold, ...(config.ageThresholds || [])]));
+  const ageCircuit = await getCircuit('age');
+  for (const threshold of ageThresholds) {
+    proofPromises.push(
+      generateAgeProof(
+        identityData.dateOfBirth,
+        threshold,
+        BigInt(identityData.identitySecret),
+        identityCommitment,
+        optionsFor('age')
+      )
+        .then(proof => {
+          // A proof of being below a threshold is never worth keeping or sharing
+          if (getPublicSignal(ageCircuit, proof.publicSignals, 'isAboveAge') === '1') {
+            if (threshold === primaryThreshold) results.ageProof = proof;
+            results.ageProofs[threshold] = proof;
+          }
+        })
+        .catch(recordError(`Age proof (${threshold}+)`))
+    );
+  }
   
   // Nationality proof
   if (config.allowedNationality) {
@@ -294,25 +325,36 @@ export async function generateAllProofs(
       generateNationalityProof(
         identityData.nationality,
         config.allowedNationality,
-        identityData.nonce
+        BigInt(identityData.identitySecret),
+        identityCommitment,
+        optionsFor('nationality')
       )
         .then(proof => { results.nationalityProof = proof; })
-        .catch(err => { results.errors.push(`Nationality proof: ${err.message}`); })
+        .catch(recordError('Nationality proof'))
     );
   }
   
   // Uniqueness proof
   proofPromises.push(
     generateUniquenessProof(
-      identityData.aadhaarNumber,
-      identityData.nonce
+      BigInt(identityData.aadhaarHash),
+      BigInt(identityData.identitySecret),
+      merkleRoot,
+      optionsFor('uniqueness')
     )
       .then(proof => { results.uniquenessProof = proof; })
-      .catch(err => { results.errors.push(`Uniqueness proof: ${err.message}`); })
+      .catch(recordError('Uniqueness proof'))
   );
   
   // Wait for all proofs
   await Promise.all(proofPromises);
+
+  if (options.signal?.aborted) {
+    throw new DOMException('Proof generation cancelled', 'AbortError');
+  }
+  if (integrityError) {
+    throw integrityError;
+  }
   
   const successCount = [
     results.ageProof,
@@ -334,11 +376,11 @@ export async function generateAllProofs(
 export async function verifyProofLocally(
   proof: any,
   publicSignals: string[],
-  attributeType: 'age' | 'nationality' | 'uniqueness'
+  attributeType: CircuitId
 ): Promise<boolean> {
   try {
-    const vkeyResponse = await fetch(CIRCUITS[attributeType].vkey);
-    const vkey = await vkeyResponse.json();
+    const circuit = await getCircuit(attributeType);
+    const vkey = await loadVerificationKey(circuit);
     
     const isValid = await snarkjs.groth16.verify(vkey, publicSignals, proof);
     
@@ -346,137 +388,158 @@ export async function verifyProofLocally(
     
     return isValid;
   } catch (error) {
+    // A mismatched verification key says nothing about the proof itself
+    if (error instanceof ArtifactIntegrityError) throw error;
     console.error('Proof verification failed:', error);
     return false;
   }
 }
 
 /**
- * Store proofs in localStorage for reuse
+ * Generate and locally verify one proof of a stored record's kind from the identity data
  */
-export function storeProofs(walletAddress: string, proofs: {
-  age?: ProofData;
-  nationality?: ProofData;
-  uniqueness?: ProofData;
-}) {
-  // Store in IndexedDB for better capacity and persistence
-  const request = indexedDB.open('SolsticeProofs', 1);
+export async function generateTargetProof(
+  target: { type: CircuitId; threshold?: number },
+  identity: IdentityProofInputs,
+  registeredCommitments: bigint[] = [],
+  options: GenerateProofOptions = {}
+): Promise<ProofData> {
+  const identitySecret = BigInt(identity.identitySecret);
+  const { identityCommitment, merkleRoot } = await computeIdentityAnchors(identity, registeredCommitments);
   
-  request.onupgradeneeded = (event: any) => {
-    const db = event.target.result;
-    if (!db.objectStoreNames.contains('proofs')) {
-      db.createObjectStore('proofs', { keyPath: 'type' });
-    }
-  };
+  let proofData: ProofData;
+  switch (target.type) {
+    case 'age':
+      proofData = await generateAgeProof(
+        identity.dateOfBirth,
+        target.threshold ?? 18,
+        identitySecret,
+        identityCommitment,
+        options
+      );
+      break;
+    case 'nationality':
+      proofData = await generateNationalityProof(
+        identity.nationality,
+        identity.nationality,
+        identitySecret,
+        identityCommitment,
+        options
+      );
+      break;
+    case 'uniqueness':
+      proofData = await generateUniquenessProof(BigInt(identity.aadhaarHash), identitySecret, merkleRoot, options);
+      break;
+    default:
+      throw new Error(`Unsupported proof type: ${target.type}`);
+  }
   
-  request.onsuccess = (event: any) => {
-    const db = event.target.result;
-    const transaction = db.transaction(['proofs'], 'readwrite');
-    const store = transaction.objectStore('proofs');
-    const timestamp = Date.now();
-    const expiresAt = timestamp + (7 * 24 * 60 * 60 * 1000); // 7 days
-    
-    // Store each proof separately
-    if (proofs.age) {
-      store.put({
-        type: 'age',
-        status: 'valid',
-        generatedAt: timestamp,
-        expiresAt,
-        proof: proofs.age.proof,
-        publicSignals: proofs.age.publicSignals,
-        walletAddress,
-      });
+  if (target.type === 'age') {
+    const circuit = await getCircuit('age');
+    if (getPublicSignal(circuit, proofData.publicSignals, 'isAboveAge') !== '1') {
+      throw new Error(`Identity no longer meets the ${target.threshold ?? 18}+ threshold`);
     }
-    
-    if (proofs.nationality) {
-      store.put({
-        type: 'nationality',
-        status: 'valid',
-        generatedAt: timestamp,
-        expiresAt,
-        proof: proofs.nationality.proof,
-        publicSignals: proofs.nationality.publicSignals,
-        walletAddress,
-      });
-    }
-    
-    if (proofs.uniqueness) {
-      store.put({
-        type: 'uniqueness',
-        status: 'valid',
-        generatedAt: timestamp,
-        expiresAt,
-        proof: proofs.uniqueness.proof,
-        publicSignals: proofs.uniqueness.publicSignals,
-        walletAddress,
-      });
-    }
-    
-    transaction.oncomplete = () => {
-      console.log('💾 Proofs stored in IndexedDB');
-    };
-  };
+  }
   
-  request.onerror = () => {
-    console.error('Failed to store proofs in IndexedDB');
-  };
+  const isValid = await verifyProofLocally(proofData.proof, proofData.publicSignals, target.type);
+  if (!isValid) {
+    throw new Error('Generated proof failed local verification');
+  }
+  return proofData;
+}
+
+/**
+ * Rebuild one stored proof from the locally held identity data
+ * The new proof is verified before it replaces the stored record, so a failed
+ * regeneration leaves the old proof in place
+ */
+export async function regenerateProof(
+  walletAddress: string,
+  target: { type: CircuitId; threshold?: number },
+  identity: IdentityProofInputs,
+  registeredCommitments: bigint[] = [],
+  options: ProveOptions = {}
+): Promise<ProofData> {
+  console.log(`🔄 Regenerating ${target.type} proof...`);
+  
+  const proofData = await generateTargetProof(target, identity, registeredCommitments, options);
+  
+  await storeProofs(
+    walletAddress,
+    target.type === 'age'
+      ? { ageByThreshold: { [target.threshold ?? 18]: proofData } }
+      : { [target.type]: proofData }
+  );
+  
+  console.log(`✅ ${target.type} proof regenerated`);
+  return proofData;
+}
+
+/**
+ * Store proofs in IndexedDB for reuse
+ * All records are written in one transaction (see proofStore.ts); resolves once it commits
+ * Expiry follows the policy in proofExpiry.ts
+ */
+export async function storeProofs(walletAddress: string, proofs: {
+  age?: ProofData;
+  ageByThreshold?: Record<number, ProofData>;
+  nationality?: ProofData;
+  uniqueness?: ProofData;
+}): Promise<void> {
+  const toStore = [
+    proofs.age,
+    ...Object.values(proofs.ageByThreshold || {}),
+    proofs.nationality,
+    proofs.uniqueness,
+  ].filter((proof): proof is ProofData => !!proof);
+  
+  try {
+    await putProofs(walletAddress, toStore, { expiresAt: proofExpiresAt });
+    console.log('💾 Proofs stored in IndexedDB');
+  } catch (error) {
+    console.error('Failed to store proofs in IndexedDB:', error);
+    throw error;
+  }
 }
 
 /**
  * Retrieve stored proofs
+ * One proof per type; for age, the 18+ proof when there is one
  */
-export async function getStoredProofs(walletAddress?: string): Promise<{
+export async function getStoredProofs(walletAddress: string): Promise<{
   age?: ProofData;
   nationality?: ProofData;
   uniqueness?: ProofData;
 }> {
-  return new Promise((resolve) => {
-    const request = indexedDB.open('SolsticeProofs', 1);
+  try {
+    const stored = await listProofs(walletAddress);
+    const result: { age?: ProofData; nationality?: ProofData; uniqueness?: ProofData } = {};
     
-    request.onupgradeneeded = (event: any) => {
-      const db = event.target.result;
-      if (!db.objectStoreNames.contains('proofs')) {
-        db.createObjectStore('proofs', { keyPath: 'type' });
+    stored.forEach((record) => {
+      if (!result[record.type] || record.params === formatProofParams('age', 18)) {
+        result[record.type] = toProofData(record);
       }
-    };
-    
-    request.onsuccess = (event: any) => {
-      const db = event.target.result;
-      const transaction = db.transaction(['proofs'], 'readonly');
-      const store = transaction.objectStore('proofs');
-      const getAllRequest = store.getAll();
-      
-      getAllRequest.onsuccess = () => {
-        const allProofs = getAllRequest.result || [];
-        const now = Date.now();
-        
-        // Filter by wallet address if provided and check expiration
-        const validProofs = allProofs.filter((p: any) => {
-          const matchesWallet = !walletAddress || p.walletAddress === walletAddress;
-          const notExpired = !p.expiresAt || p.expiresAt > now;
-          return matchesWallet && notExpired;
-        });
-        
-        // Convert to expected format
-        const result: any = {};
-        validProofs.forEach((p: any) => {
-          result[p.type] = {
-            proof: p.proof,
-            publicSignals: p.publicSignals,
-          };
-        });
-        
-        resolve(result);
-      };
-      
-      getAllRequest.onerror = () => {
-        resolve({});
-      };
-    };
+    });
     
-    request.onerror = () => {
-      resolve({});
-    };
-  });
+    return result;
+  } catch (error) {
+    console.error('Failed to read proofs from IndexedDB:', error);
+    return {};
+  }
+}
+
+/**
+ * Retrieve stored age proofs keyed by threshold
+ */
+export async function getStoredAgeProofs(walletAddress: string): Promise<Record<number, ProofData>> {
+  try {
+    const [stored, circuit] = await Promise.all([listProofs(walletAddress, { type: 'age' }), getCircuit('age')]);
+    return Object.fromEntries(stored.map((record) => [
+      Number(getPublicSignal(circuit, record.publicSignals, 'minAge')),
+      toProofData(record),
+    ]));
+  } catch (error) {
+    console.error('Failed to read age proofs from IndexedDB:', error);
+    return {};
+  }
 }
@@ -0,0 +1,149 @@
+/**
+ * Proof QR
+ * Carries a proof bundle (see proofBundle.ts) in QR codes a phone camera can read
+ *
+ * The bundle JSON is deflated and base45-encoded (RFC 9285), which stays inside the
+ * QR alphanumeric mode and packs ~30% more data per code than base64 in byte mode.
+ * Bundles too large for one code are split into frames shown as an animated sequence:
+ *   SP1:<index>/<total>:<id>:<base45 chunk>
+ * Frames may be scanned in any order; <id> keeps frames of different bundles apart
+ */
+
+import pako from 'pako';
+import QRCode from 'qrcode';
+import { decodeProofBundle, ProofBundleError } from './proofBundle';
+import type { ProofBundle } from './proofBundle';
+
+const BASE45_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+const FRAME_PATTERN = /^SP1:(\d+)\/(\d+):([0-9A-Z]{4}):(.*)$/;
+
+// Alphanumeric characters per frame; small enough for a mid-range phone camera to lock on
+export const DEFAULT_FRAME_CHARS = 800;
+
+/**
+ * Base45 encode (RFC 9285)
+ */
+export function base45Encode(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 2) {
+    if (i + 1 < bytes.length) {
+      let n = bytes[i] * 256 + bytes[i + 1];
+      for (let k = 0; k < 3; k++) {
+        out += BASE45_CHARSET[n % 45];
+        n = Math.floor(n / 45);
+      }
+    } else {
+      const n = bytes[i];
+      out += BASE45_CHARSET[n % 45] + BASE45_CHARSET[Math.floor(n / 45)];
+    }
+  }
+  return out;
+}
+
+/**
+ * Base45 decode (RFC 9285)
+ */
+export function base45Decode(text: string): Uint8Array {
+  const values = Array.from(text, (c) => {
+    const v = BASE45_CHARSET.indexOf(c);
+    if (v < 0) throw new ProofBundleError(`Invalid base45 character: ${c}`);
+    return v;
+  });
+  if (values.length % 3 === 1) throw new ProofBundleError('Invalid base45 length');
+
+  const out: number[] = [];
+  for (let i = 0; i < values.length; i += 3) {
+    if (i + 2 < values.length) {
+      const n = values[i] + values[i + 1] * 45 + values[i + 2] * 45 * 45;
+      if (n > 0xffff) throw new ProofBundleError('Invalid base45 triplet');
+      out.push(n >> 8, n & 0xff);
+    } else {
+      const n = values[i] + values[i + 1] * 45;
+      if (n > 0xff) throw new ProofBundleError('Invalid base45 pair');
+      out.push(n);
+    }
+  }
+  return new Uint8Array(out);
+}
+
+/**
+ * Whether scanned QR text is a proof frame
+ */
+export function isProofQrFrame(text: string): boolean {
+  return FRAME_PATTERN.test(text);
+}
+
+/**
+ * Split a bundle into QR frame strings
+ */
+export function encodeProofQrFrames(bundle: ProofBundle, maxFrameChars: number = DEFAULT_FRAME_CHARS): string[] {
+  const data = base45Encode(pako.deflate(new TextEncoder().encode(JSON.stringify(bundle))));
+  const id = Array.from(crypto.getRandomValues(new Uint8Array(2)), (b) => b.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+
+  const total = Math.max(1, Math.ceil(data.length / maxFrameChars));
+  return Array.from({ length: total }, (_, i) =>
+    `SP1:${i + 1}/${total}:${id}:${data.slice(i * maxFrameChars, (i + 1) * maxFrameChars)}`
+  );
+}
+
+/**
+ * Render frames as PNG data URLs
+ */
+export function renderProofQrFrames(frames: string[]): Promise<string[]> {
+  return Promise.all(frames.map((frame) =>
+    QRCode.toDataURL([{ data: frame, mode: 'alphanumeric' }], { errorCorrectionLevel: 'M', margin: 2, width: 360 })
+  ));
+}
+
+export type ProofQrScanResult =
+  | { complete: false; received: number; total: number }
+  | { complete: true; bundle: ProofBundle };
+
+/**
+ * Collects scanned frames until a bundle is complete
+ * Decoding validates the bundle schema; check the signature with verifyProofBundle
+ */
+export function createProofQrAssembler() {
+  let id: string | null = null;
+  let chunks: string[] = [];
+
+  return {
+    add(text: string): ProofQrScanResult {
+      const match = text.match(FRAME_PATTERN);
+      if (!match) throw new ProofBundleError('Not a Solstice proof QR code');
+
+      const [, indexText, totalText, frameId, chunk] = match;
+      const index = Number(indexText);
+      const total = Number(totalText);
+      if (total < 1 || index < 1 || index > total) throw new ProofBundleError('Invalid proof QR frame number');
+
+      // A frame from another bundle starts over
+      if (frameId !== id || chunks.length !== total) {
+        id = frameId;
+        chunks = new Array(total).fill('');
+      }
+      chunks[index - 1] = chunk;
+
+      const received = chunks.filter(Boolean).length;
+      if (received < total) return { complete: false, received, total };
+
+      let json: string;
+      try {
+        json = new TextDecoder().decode(pako.inflate(base45Decode(chunks.join(''))));
+      } catch (error) {
+        if (error instanceof ProofBundleError) throw error;
+        throw new ProofBundleError('Could not decompress proof QR data');
+      } finally {
+        id = null;
+        chunks = [];
+      }
+      return { complete: true, bundle: decodeProofBundle(json) };
+    },
+    reset() {
+      id = null;
+      chunks = [];
+    },
+  };
+}
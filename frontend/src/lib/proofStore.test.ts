@@ -0,0 +1,92 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import manifest from '../../public/circuits/manifest.json';
+import type { CircuitDefinition, CircuitId, ProofData } from './circuitRegistry';
+import { formatProofParams, listProofs, proofParamValue, proofParams, putProofs } from './proofStore';
+
+vi.mock('./circuitRegistry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./circuitRegistry')>()),
+  listCircuits: async () => circuits,
+}));
+
+const circuits = manifest.circuits as CircuitDefinition[];
+const circuit = (id: CircuitId) => circuits.find((c) => c.id === id)!;
+
+describe('proofParams', () => {
+  it('reads parameters by their public signal names', () => {
+    // minAge, isAboveAge, commitmentHash
+    expect(proofParams(circuit('age'), ['21', '1', '123'])).toBe('minAge=21');
+    // allowedCountry, isFromCountry, commitmentHash
+    expect(proofParams(circuit('nationality'), ['91', '1', '123'])).toBe('country=91');
+    expect(proofParams(circuit('uniqueness'), ['5', '6'])).toBe('');
+  });
+
+  it('follows the manifest when signals are reordered', () => {
+    const reordered = { ...circuit('age'), publicSignals: ['isAboveAge', 'commitmentHash', 'minAge'] };
+    expect(proofParams(reordered, ['1', '123', '25'])).toBe('minAge=25');
+  });
+
+  it('rejects a circuit without the parameter signal', () => {
+    const renamed = { ...circuit('age'), publicSignals: ['threshold', 'isAboveAge', 'commitmentHash'] };
+    expect(() => proofParams(renamed, ['18', '1', '123'])).toThrow(/no minAge public signal/);
+  });
+
+  it('round-trips parameter values through record params', () => {
+    expect(proofParamValue({ params: formatProofParams('age', 18) })).toBe('18');
+    expect(proofParamValue({ params: '' })).toBeUndefined();
+  });
+});
+
+const PROOF = { pi_a: ['1', '2', '1'], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' };
+
+describe('proof storage', () => {
+  it('migrates v1 records into per-wallet records', async () => {
+    // v1: one 'proofs' store keyed by type, age thresholds nested in one record
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open('SolsticeProofs', 1);
+      request.onupgradeneeded = () => {
+        const legacy = request.result.createObjectStore('proofs', { keyPath: 'type' });
+        legacy.put({
+          type: 'age',
+          walletAddress: 'wallet-v1',
+          proof: PROOF,
+          publicSignals: ['18', '1', '7'],
+          thresholds: {
+            18: { proof: PROOF, publicSignals: ['18', '1', '7'], generatedAt: 1, expiresAt: Date.now() + 60_000 },
+            21: { proof: PROOF, publicSignals: ['21', '1', '7'], generatedAt: 1, expiresAt: Date.now() + 60_000 },
+          },
+        });
+        legacy.put({ type: 'nationality', proof: PROOF, publicSignals: ['91', '1', '7'] }); // No wallet
+      };
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    const records = await listProofs('wallet-v1');
+    expect(records.map((record) => record.id).sort()).toEqual([
+      'wallet-v1:age:minAge=18',
+      'wallet-v1:age:minAge=21',
+    ]);
+  });
+
+  it('keeps wallets apart and replaces records with the same parameters', async () => {
+    const ageProof = (minAge: string, commitment: string): ProofData => ({
+      proof: PROOF,
+      publicSignals: [minAge, '1', commitment],
+      attributeType: 'age',
+    });
+
+    await putProofs('wallet-a', [ageProof('18', '1'), ageProof('25', '1')]);
+    await putProofs('wallet-a', [ageProof('18', '2')]);
+    await putProofs('wallet-b', [ageProof('18', '3')]);
+
+    const records = await listProofs('wallet-a');
+    expect(records.map((record) => [record.params, record.publicSignals[2]]).sort()).toEqual([
+      ['minAge=18', '2'],
+      ['minAge=25', '1'],
+    ]);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Proof Store
+ * Versioned IndexedDB storage for generated proofs, one record per wallet, proof type
+ * and parameters (id `wallet:type:params`), so several wallets can share a browser
+ *
+ * Schema history:
+ *   v1  'proofs' store keyed by type; one record per type for whichever wallet wrote last
+ *   v2  'proofRecords' store keyed by id with a walletAddress index; v1 records are migrated
+ */
+
+import { getPublicSignal, listCircuits } from './circuitRegistry';
+import { openDatabase } from './indexedDb';
+import type { CircuitDefinition, CircuitId, Groth16Proof, ProofBinding, ProofData } from './circuitRegistry';
+
+const DB_NAME = 'SolsticeProofs';
+const DB_VERSION = 2;
+const RECORDS_STORE = 'proofRecords';
+const LEGACY_STORE = 'proofs';
+const WALLET_INDEX = 'walletAddress';
+
+export const PROOF_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export interface StoredProof {
+  id: string;
+  walletAddress: string;
+  type: CircuitId;
+  params: string;           // e.g. "minAge=18"; empty for proofs without parameters
+  proof: Groth16Proof;
+  publicSignals: string[];
+  binding?: ProofBinding;
+  generatedAt: number;
+  expiresAt: number;
+}
+
+// Public signal holding each circuit's parameter, and its label in record ids
+const PARAM_SIGNALS: Partial<Record<CircuitId, { signal: string; label: string }>> = {
+  age: { signal: 'minAge', label: 'minAge' },
+  nationality: { signal: 'allowedCountry', label: 'country' },
+};
+
+/**
+ * Parameter part of a record id for a parameter value, e.g. "minAge=18"
+ */
+export function formatProofParams(type: CircuitId, value: string | number): string {
+  const param = PARAM_SIGNALS[type];
+  return param ? `${param.label}=${value}` : '';
+}
+
+/**
+ * Parameter part of a record id, read from the public signals by their manifest names
+ */
+export function proofParams(circuit: CircuitDefinition, publicSignals: string[]): string {
+  const param = PARAM_SIGNALS[circuit.id];
+  if (!param) return '';
+  const value = getPublicSignal(circuit, publicSignals, param.signal);
+  if (value === undefined) {
+    throw new Error(`Circuit "${circuit.id}" has no ${param.signal} public signal`);
+  }
+  return formatProofParams(circuit.id, value);
+}
+
+/**
+ * Parameter value of a stored record, e.g. "18" for an 18+ age proof
+ */
+export function proofParamValue(record: Pick<StoredProof, 'params'>): string | undefined {
+  const separator = record.params.indexOf('=');
+  return separator < 0 ? undefined : record.params.slice(separator + 1);
+}
+
+function circuitFor(circuits: CircuitDefinition[], id: CircuitId): CircuitDefinition {
+  const circuit = circuits.find((c) => c.id === id);
+  if (!circuit) {
+    throw new Error(`Circuit "${id}" is not listed in the circuit manifest`);
+  }
+  return circuit;
+}
+
+export function proofRecordId(walletAddress: string, type: CircuitId, params: string): string {
+  return `${walletAddress}:${type}:${params}`;
+}
+
+function toStoredProof(
+  walletAddress: string,
+  proofData: ProofData,
+  circuit: CircuitDefinition,
+  generatedAt: number,
+  expiresAt: number
+): StoredProof {
+  const params = proofParams(circuit, proofData.publicSignals);
+  return {
+    id: proofRecordId(walletAddress, proofData.attributeType, params),
+    walletAddress,
+    type: proofData.attributeType,
+    params,
+    proof: proofData.proof,
+    publicSignals: proofData.publicSignals,
+    binding: proofData.binding,
+    generatedAt,
+    expiresAt,
+  };
+}
+
+/**
+ * The ProofData view of a stored record
+ */
+export function toProofData(stored: StoredProof): ProofData {
+  return {
+    proof: stored.proof,
+    publicSignals: stored.publicSignals,
+    attributeType: stored.type,
+    binding: stored.binding,
+  };
+}
+
+interface LegacyProofEntry {
+  proof: Groth16Proof;
+  publicSignals: string[];
+  binding?: ProofBinding;
+  generatedAt?: number;
+  expiresAt?: number;
+}
+
+interface LegacyProofRecord extends LegacyProofEntry {
+  type: CircuitId;
+  walletAddress?: string;
+  thresholds?: Record<string, LegacyProofEntry>; // Age records only
+}
+
+/**
+ * Convert a v1 record; age records may carry several thresholds
+ * Records without a wallet cannot be attributed and are dropped
+ */
+function migrateLegacyRecord(record: LegacyProofRecord, circuits: CircuitDefinition[]): StoredProof[] {
+  const walletAddress = record?.walletAddress;
+  if (!walletAddress || !record.type) return [];
+  const circuit = circuitFor(circuits, record.type);
+
+  const entries: LegacyProofEntry[] = record.type === 'age' && record.thresholds
+    ? Object.values(record.thresholds)
+    : [record];
+
+  return entries.map((entry) => toStoredProof(
+    walletAddress,
+    {
+      proof: entry.proof,
+      publicSignals: entry.publicSignals,
+      attributeType: record.type,
+      binding: entry.binding,
+    },
+    circuit,
+    entry.generatedAt ?? record.generatedAt ?? Date.now(),
+    entry.expiresAt ?? record.expiresAt ?? Date.now() + PROOF_TTL_MS
+  ));
+}
+
+function upgradeProofDb(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  circuits: CircuitDefinition[]
+) {
+  if (oldVersion < 2) {
+    const records = db.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
+    records.createIndex(WALLET_INDEX, 'walletAddress');
+
+    if (db.objectStoreNames.contains(LEGACY_STORE)) {
+      const legacyRequest = transaction.objectStore(LEGACY_STORE).getAll();
+      legacyRequest.onsuccess = () => {
+        const migrated = (legacyRequest.result || []).flatMap((record) => migrateLegacyRecord(record, circuits));
+        migrated.forEach((record) => records.put(record));
+        db.deleteObjectStore(LEGACY_STORE);
+        console.log(`📦 Migrated ${migrated.length} proofs to storage v${DB_VERSION}`);
+      };
+    }
+  }
+}
+
+async function openProofDb(): Promise<IDBDatabase> {
+  // Migration derives record ids from public signal names, so the manifest is needed up front
+  const circuits = await listCircuits();
+  return openDatabase(DB_NAME, DB_VERSION, (db, transaction, oldVersion) =>
+    upgradeProofDb(db, transaction, oldVersion, circuits)
+  );
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openProofDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([RECORDS_STORE], mode);
+    const request = run(transaction.objectStore(RECORDS_STORE));
+
+    // Resolve on commit so writes are durable before callers read them back
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Store proofs for a wallet in one transaction, replacing records with the same id
+ * Expiry comes from `expiresAt` (see proofExpiry.ts), or PROOF_TTL_MS after generation
+ */
+export async function putProofs(
+  walletAddress: string,
+  proofs: ProofData[],
+  options: {
+    generatedAt?: number;
+    expiresAt?: (proofData: ProofData, generatedAt: number) => number;
+  } = {}
+): Promise<StoredProof[]> {
+  const generatedAt = options.generatedAt ?? Date.now();
+  const expiresAt = options.expiresAt ?? ((_proofData: ProofData, at: number) => at + PROOF_TTL_MS);
+  const circuits = await listCircuits();
+  const records = proofs.map((proofData) => toStoredProof(
+    walletAddress,
+    proofData,
+    circuitFor(circuits, proofData.attributeType),
+    generatedAt,
+    expiresAt(proofData, generatedAt)
+  ));
+
+  await withStore('readwrite', (store) => {
+    records.forEach((record) => store.put(record));
+  });
+  return records;
+}
+
+/**
+ * A wallet's stored proofs, optionally of one type; expired records are left out unless asked for
+ */
+export async function listProofs(
+  walletAddress: string,
+  options: { type?: CircuitId; includeExpired?: boolean } = {}
+): Promise<StoredProof[]> {
+  const records = await withStore<StoredProof[]>('readonly', (store) =>
+    store.index(WALLET_INDEX).getAll(walletAddress)
+  );
+
+  const now = Date.now();
+  return records.filter((record) =>
+    (!options.type || record.type === options.type)
+    && (options.includeExpired || record.expiresAt > now)
+  );
+}
+
+/**
+ * One stored proof, or null if missing or expired
+ */
+export async function getProof(
+  walletAddress: string,
+  type: CircuitId,
+  params: string
+): Promise<StoredProof | null> {
+  const record = await withStore<StoredProof | undefined>('readonly', (store) =>
+    store.get(proofRecordId(walletAddress, type, params))
+  );
+  return record && record.expiresAt > Date.now() ? record : null;
+}
+
+/**
+ * Remove one stored proof
+ */
+export async function deleteProof(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Remove every stored proof for a wallet
+ */
+export async function deleteWalletProofs(walletAddress: string): Promise<void> {
+  const records = await listProofs(walletAddress, { includeExpired: true });
+  await withStore('readwrite', (store) => {
+    records.forEach((record) => store.delete(record.id));
+  });
+}
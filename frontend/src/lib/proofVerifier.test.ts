@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import type { Connection } from '@solana/web3.js';
+import manifest from '../../public/circuits/manifest.json';
+import type { CircuitDefinition, CircuitId } from './circuitRegistry';
+import { fetchIdentityCommitment } from './anchor';
+import { createProofBundle } from './proofBundle';
+import { bindAnchor } from './proofBinding';
+import { verifySharedProof } from './proofVerifier';
+
+vi.mock('./circuitRegistry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./circuitRegistry')>()),
+  getCircuit: async (id: CircuitId) => circuit(id),
+}));
+
+vi.mock('./proofGenerator', () => ({ verifyProofLocally: async () => true }));
+
+vi.mock('./anchor', () => ({ fetchIdentityCommitment: vi.fn() }));
+
+const circuits = manifest.circuits as CircuitDefinition[];
+const circuit = (id: CircuitId) => circuits.find((c) => c.id === id)!;
+
+const COMMITMENT = 123n;
+
+async function holderBundle() {
+  const keys = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const holder = new PublicKey(new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey))).toBase58();
+  const context = { walletPublicKey: holder, challengeId: 'bundle-1', nonce: 'nonce-1', relyingPartyId: 'app-1' };
+
+  return createProofBundle({
+    proof: { pi_a: ['1', '2', '1'], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+    // minAge, isAboveAge, commitmentHash
+    publicSignals: ['18', '1', (await bindAnchor(COMMITMENT, context)).toString()],
+    attributeType: 'age',
+    binding: { anchor: COMMITMENT.toString(), context },
+  }, {
+    holder,
+    signMessage: async (message) =>
+      new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, keys.privateKey, message as BufferSource)),
+    expiresAt: Date.now() + 60_000,
+  });
+}
+
+// Connection on which the holder's identity account holds `commitment`, or does not exist
+function connectionWith(commitment: bigint | null): Connection {
+  vi.mocked(fetchIdentityCommitment).mockResolvedValue({ commitment, address: 'identity-pda' });
+  return {} as Connection;
+}
+
+describe('verifySharedProof', () => {
+  it('accepts a proof made from the holder\'s registered commitment', async () => {
+    const result = await verifySharedProof(await holderBundle(), { connection: connectionWith(COMMITMENT) });
+    expect(result).toMatchObject({ valid: true, identity: 'registered' });
+  });
+
+  it('rejects a proof made from a different commitment than the holder registered', async () => {
+    const result = await verifySharedProof(await holderBundle(), { connection: connectionWith(456n) });
+    expect(result).toMatchObject({ valid: false, identity: 'mismatch' });
+    expect(result.error).toMatch(/not made from the identity this wallet registered/);
+  });
+
+  it('reports a holder without an identity account alongside a valid proof', async () => {
+    const result = await verifySharedProof(await holderBundle(), { connection: connectionWith(null) });
+    expect(result).toMatchObject({ valid: true, identity: 'not-registered' });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Shared Proof Verifier
+ * Checks a proof bundle received from someone else, as a third-party verifier would:
+ * bundle signature, expiry, circuit and binding, the Groth16 proof against the pinned
+ * verification key and, optionally, that the proof was made from the identity the
+ * holder registered on chain
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { SignatureUnsupportedError, verifyProofBundle } from './proofBundle';
+import type { ProofBundle } from './proofBundle';
+import { verifyProofLocally } from './proofGenerator';
+import { getCircuit, getPublicSignal } from './circuitRegistry';
+import type { ProofData } from './circuitRegistry';
+import { fetchIdentityCommitment } from './anchor';
+
+// 'mismatch': the holder registered a different identity than the proof was made from
+export type HolderIdentityStatus = 'registered' | 'not-registered' | 'mismatch' | 'unavailable' | 'skipped';
+
+export interface SharedProofVerification {
+  bundle: ProofBundle;
+  valid: boolean;
+  error?: string;                  // Why the proof was rejected
+  unsupported?: boolean;           // This browser cannot check the holder signature; not a rejection
+  identity: HolderIdentityStatus;  // On-chain identity of the holder; only a mismatch fails the proof
+  identityAccount?: string;
+}
+
+/**
+ * Identity commitment a proof was made from: the anchor of a bound proof, the commitmentHash
+ * signal of an unbound one; undefined for circuits without one (uniqueness)
+ */
+async function proofCommitment(proofData: ProofData): Promise<bigint | undefined> {
+  const circuit = await getCircuit(proofData.attributeType);
+  const signal = getPublicSignal(circuit, proofData.publicSignals, 'commitmentHash');
+  if (signal === undefined) return undefined;
+  return BigInt(proofData.binding && circuit.bindingSignal === 'commitmentHash' ? proofData.binding.anchor : signal);
+}
+
+/**
+ * Verify a decoded bundle; never throws, failures are reported in the result
+ */
+export async function verifySharedProof(
+  bundle: ProofBundle,
+  options: { connection?: Connection; now?: number } = {}
+): Promise<SharedProofVerification> {
+  const result: SharedProofVerification = { bundle, valid: false, identity: 'skipped' };
+
+  let proofData: ProofData | null = null;
+  try {
+    proofData = await verifyProofBundle(bundle, options.now);
+    result.valid = await verifyProofLocally(proofData.proof, proofData.publicSignals, proofData.attributeType);
+    if (!result.valid) result.error = 'The zero-knowledge proof did not verify';
+  } catch (error) {
+    console.error('Shared proof verification failed:', error);
+    result.unsupported = error instanceof SignatureUnsupportedError;
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  if (options.connection) {
+    try {
+      const account = await fetchIdentityCommitment(options.connection, new PublicKey(bundle.payload.holder));
+      const expected = proofData ? await proofCommitment(proofData) : undefined;
+      result.identityAccount = account.address;
+      result.identity = account.commitment === null ? 'not-registered'
+        : expected !== undefined && expected !== account.commitment ? 'mismatch'
+        : 'registered';
+    } catch (error) {
+      console.warn('Could not look up the holder identity account:', error);
+      result.identity = 'unavailable';
+    }
+
+    // A valid proof of someone else's identity, signed by this holder, proves nothing about them
+    if (result.identity === 'mismatch' && result.valid) {
+      result.valid = false;
+      result.error = 'The proof was not made from the identity this wallet registered on chain';
+    }
+  }
+
+  console.log(`${result.valid ? '✅' : result.unsupported ? '⚠️' : '❌'} Shared ${bundle.payload.circuit.id} proof:`, result);
+  return result;
+}
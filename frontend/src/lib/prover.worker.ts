@@ -0,0 +1,42 @@
+/**
+ * Groth16 Prover Worker
+ * Runs witness calculation and proving off the main thread so the UI stays responsive
+ */
+
+import { groth16, wtns } from 'snarkjs';
+import type { ZKArtifact } from 'snarkjs';
+import type { ProverRequest, ProverResponse } from './proverPool';
+
+// The app is compiled against the DOM lib, so describe the worker scope we use
+const ctx = self as unknown as {
+  postMessage(message: ProverResponse): void;
+  onmessage: ((event: MessageEvent<ProverRequest>) => void) | null;
+};
+
+function post(message: ProverResponse) {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = async (event: MessageEvent<ProverRequest>) => {
+  const { jobId, input, wasm, zkey } = event.data;
+
+  try {
+    // Stage 1: witness calculation (runs the circuit wasm)
+    post({ jobId, type: 'progress', stage: 'witness' });
+    const witness = { type: 'mem' };
+    await wtns.calculate(input, wasm, witness);
+
+    // Stage 2: multi-scalar multiplications over the proving key
+    post({ jobId, type: 'progress', stage: 'msm' });
+    const { proof, publicSignals } = await groth16.prove(zkey, witness as unknown as ZKArtifact);
+
+    post({ jobId, type: 'progress', stage: 'done' });
+    post({ jobId, type: 'result', proof, publicSignals });
+  } catch (error) {
+    post({
+      jobId,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProverRequest, ProverResponse } from './proverPool';
+
+type WorkerReply = {
+  [T in ProverResponse['type']]: Omit<Extract<ProverResponse, { type: T }>, 'jobId'>;
+}[ProverResponse['type']];
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  posted: ProverRequest[] = [];
+  terminated = false;
+  onmessage: ((event: { data: ProverResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: ProverRequest) {
+    this.posted.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  get current(): ProverRequest {
+    return this.posted[this.posted.length - 1];
+  }
+
+  reply(response: WorkerReply) {
+    this.onmessage?.({ data: { jobId: this.current.jobId, ...response } as ProverResponse });
+  }
+}
+
+const RESULT: Extract<WorkerReply, { type: 'result' }> = {
+  type: 'result',
+  proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+  publicSignals: ['1'],
+};
+
+// Module state (queue and workers) is per import, so each test gets a fresh pool of 2
+let pool: typeof import('./proverPool');
+
+beforeEach(async () => {
+  FakeWorker.instances = [];
+  vi.stubGlobal('Worker', FakeWorker);
+  vi.spyOn(navigator, 'hardwareConcurrency', 'get').mockReturnValue(4);
+  vi.resetModules();
+  pool = await import('./proverPool');
+});
+
+const prove = (options: Parameters<typeof pool.proveInWorker>[3] = {}) =>
+  pool.proveInWorker({}, 'circuit.wasm', 'circuit.zkey', options);
+
+describe('proveInWorker', () => {
+  it('queues jobs beyond the pool size and reports their stages', async () => {
+    const stages: string[] = [];
+    const first = prove({ onProgress: (stage) => stages.push(stage) });
+    prove();
+    const third = prove();
+
+    expect(FakeWorker.instances).toHaveLength(2);
+    const [worker] = FakeWorker.instances;
+    expect(FakeWorker.instances.map((w) => w.posted.length)).toEqual([1, 1]);
+
+    worker.reply({ type: 'progress', stage: 'witness' });
+    worker.reply(RESULT);
+    await expect(first).resolves.toEqual({ proof: RESULT.proof, publicSignals: RESULT.publicSignals });
+    expect(stages).toEqual(['queued', 'witness']);
+
+    // The freed worker takes the queued job
+    expect(worker.posted).toHaveLength(2);
+    worker.reply(RESULT);
+    await expect(third).resolves.toBeDefined();
+  });
+
+  it('drops an aborted queued job without touching the workers', async () => {
+    prove();
+    prove();
+    const controller = new AbortController();
+    const queued = prove({ signal: controller.signal });
+
+    controller.abort();
+    await expect(queued).rejects.toSatisfy(pool.isProofCancelled);
+
+    FakeWorker.instances[0].reply(RESULT);
+    expect(FakeWorker.instances[0].posted).toHaveLength(1);
+    expect(FakeWorker.instances.some((w) => w.terminated)).toBe(false);
+  });
+
+  it('terminates and replaces the worker of an aborted running job', async () => {
+    const controller = new AbortController();
+    const running = prove({ signal: controller.signal });
+    prove();
+    const queued = prove();
+    const [worker] = FakeWorker.instances;
+
+    controller.abort();
+    await expect(running).rejects.toSatisfy(pool.isProofCancelled);
+    expect(worker.terminated).toBe(true);
+
+    // The replacement picks up the queued job
+    const replacement = FakeWorker.instances[2];
+    expect(replacement.posted).toHaveLength(1);
+    replacement.reply(RESULT);
+    await expect(queued).resolves.toBeDefined();
+  });
+
+  it('rejects only the job whose worker crashed', async () => {
+    const crashed = prove();
+    const other = prove();
+    const [worker, otherWorker] = FakeWorker.instances;
+
+    worker.onerror?.({ message: 'out of memory' });
+    await expect(crashed).rejects.toThrow('out of memory');
+    expect(worker.terminated).toBe(true);
+    expect(FakeWorker.instances).toHaveLength(3);
+
+    otherWorker.reply(RESULT);
+    await expect(other).resolves.toBeDefined();
+  });
+
+  it('rejects a job whose proof fails', async () => {
+    const failing = prove();
+    FakeWorker.instances[0].reply({ type: 'error', message: 'Assert failed' });
+    await expect(failing).rejects.toThrow('Assert failed');
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Prover Worker Pool
+ * Schedules Groth16 proving jobs onto a small pool of Web Workers
+ * Concurrency is derived from navigator.hardwareConcurrency
+ */
+
+import type { CircuitSignals, Groth16Proof, PublicSignals, ZKArtifact } from 'snarkjs';
+
+export type ProofStage = 'queued' | 'witness' | 'msm' | 'done';
+
+export interface ProveOptions {
+  onProgress?: (stage: ProofStage) => void;
+  signal?: AbortSignal;
+}
+
+export interface ProverRequest {
+  jobId: number;
+  input: CircuitSignals;
+  wasm: ZKArtifact;
+  zkey: ZKArtifact;
+}
+
+export type ProverResponse =
+  | { jobId: number; type: 'progress'; stage: ProofStage }
+  | { jobId: number; type: 'result'; proof: Groth16Proof; publicSignals: PublicSignals }
+  | { jobId: number; type: 'error'; message: string };
+
+interface ProverJob {
+  request: ProverRequest;
+  options: ProveOptions;
+  resolve: (result: { proof: Groth16Proof; publicSignals: PublicSignals }) => void;
+  reject: (error: Error) => void;
+  onAbort?: () => void;
+}
+
+interface PoolSlot {
+  worker: Worker;
+  job: ProverJob | null;
+}
+
+/**
+ * Each proof already fans out over snarkjs' own threads, so only a few
+ * proofs run side by side to avoid starving the main thread
+ */
+function getPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(3, Math.floor(cores / 2)));
+}
+
+const queue: ProverJob[] = [];
+const slots: PoolSlot[] = [];
+let nextJobId = 1;
+
+function createWorker(): Worker {
+  return new Worker(new URL('./prover.worker.ts', import.meta.url), { type: 'module' });
+}
+
+function abortError(): DOMException {
+  return new DOMException('Proof generation cancelled', 'AbortError');
+}
+
+function finishJob(slot: PoolSlot) {
+  const job = slot.job;
+  if (job?.onAbort) {
+    job.options.signal?.removeEventListener('abort', job.onAbort);
+  }
+  slot.job = null;
+  schedule();
+}
+
+/**
+ * Start a fresh worker for a slot and route its messages to the slot's current job
+ */
+function spawnWorker(slot: PoolSlot) {
+  const worker = createWorker();
+  slot.worker = worker;
+
+  worker.onmessage = (event: MessageEvent<ProverResponse>) => {
+    const message = event.data;
+    const job = slot.job;
+    if (!job || job.request.jobId !== message.jobId) return;
+
+    if (message.type === 'progress') {
+      job.options.onProgress?.(message.stage);
+    } else if (message.type === 'result') {
+      job.resolve({ proof: message.proof, publicSignals: message.publicSignals });
+      finishJob(slot);
+    } else {
+      job.reject(new Error(message.message));
+      finishJob(slot);
+    }
+  };
+
+  worker.onerror = (event) => {
+    const job = slot.job;
+    if (job) {
+      job.reject(new Error(event.message || 'Prover worker crashed'));
+    }
+    // A crashed worker cannot be trusted with another job
+    replaceWorker(slot);
+    finishJob(slot);
+  };
+}
+
+/**
+ * snarkjs cannot be interrupted mid-proof, so cancelling a running
+ * job terminates its worker and starts a fresh one in its place
+ */
+function replaceWorker(slot: PoolSlot) {
+  slot.worker.terminate();
+  spawnWorker(slot);
+}
+
+function schedule() {
+  while (queue.length > 0) {
+    let slot = slots.find((s) => s.job === null);
+    if (!slot && slots.length < getPoolSize()) {
+      slot = { job: null } as PoolSlot;
+      spawnWorker(slot);
+      slots.push(slot);
+    }
+    if (!slot) return;
+
+    const job = queue.shift()!;
+    slot.job = job;
+    slot.worker.postMessage(job.request);
+  }
+}
+
+/**
+ * Generate a Groth16 proof in a worker
+ * Resolves with the proof and public signals, rejects with an AbortError if cancelled
+ */
+export function proveInWorker(
+  input: CircuitSignals,
+  wasm: ZKArtifact,
+  zkey: ZKArtifact,
+  options: ProveOptions = {}
+): Promise<{ proof: Groth16Proof; publicSignals: PublicSignals }> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const job: ProverJob = {
+      request: { jobId: nextJobId++, input, wasm, zkey },
+      options,
+      resolve,
+      reject,
+    };
+
+    job.onAbort = () => {
+      const queuedIndex = queue.indexOf(job);
+      if (queuedIndex !== -1) {
+        queue.splice(queuedIndex, 1);
+      } else {
+        const slot = slots.find((s) => s.job === job);
+        if (slot) {
+          slot.job = null;
+          replaceWorker(slot);
+        }
+      }
+      reject(abortError());
+      schedule();
+    };
+    options.signal?.addEventListener('abort', job.onAbort, { once: true });
+
+    queue.push(job);
+    options.onProgress?.('queued');
+    schedule();
+  });
+}
+
+/**
+ * Check whether an error came from a cancelled proof
+ */
+export function isProofCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
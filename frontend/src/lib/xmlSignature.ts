@@ -0,0 +1,218 @@
+/**
+ * XML Signature
+ * Minimal XML-DSig verification for UIDAI-signed Aadhaar XML: one enveloped signature
+ * over the whole document (Reference URI=""), RSA with SHA-1 or SHA-256, and inclusive or
+ * exclusive Canonical XML 1.0. Comments are dropped as both URI="" and the
+ * without-comments algorithms require. Anything else is rejected rather than guessed at.
+ */
+
+import { AadhaarSignatureError, verifyAadhaarSignature } from './aadhaarSignature';
+import type { AadhaarSignatureHash } from './aadhaarSignature';
+
+const DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const ENVELOPED_SIGNATURE = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+
+const CANONICALIZATION: Record<string, 'inclusive' | 'exclusive'> = {
+  'http://www.w3.org/TR/2001/REC-xml-c14n-20010315': 'inclusive',
+  'http://www.w3.org/TR/2001/REC-xml-c14n-20010315#WithComments': 'inclusive',
+  'http://www.w3.org/2001/10/xml-exc-c14n#': 'exclusive',
+  'http://www.w3.org/2001/10/xml-exc-c14n#WithComments': 'exclusive',
+};
+
+const SIGNATURE_METHODS: Record<string, AadhaarSignatureHash> = {
+  'http://www.w3.org/2000/09/xmldsig#rsa-sha1': 'SHA-1',
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256': 'SHA-256',
+};
+
+const DIGEST_METHODS: Record<string, AadhaarSignatureHash> = {
+  'http://www.w3.org/2000/09/xmldsig#sha1': 'SHA-1',
+  'http://www.w3.org/2001/04/xmlenc#sha256': 'SHA-256',
+};
+
+type Canonicalization = 'inclusive' | 'exclusive';
+type NamespaceMap = Map<string, string>; // prefix ('' for default) -> URI
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;').replace(/\n/g, '&#xA;').replace(/\r/g, '&#xD;');
+}
+
+function isNamespaceDeclaration(attr: Attr): boolean {
+  return attr.name === 'xmlns' || attr.name.startsWith('xmlns:');
+}
+
+function declaredPrefix(attr: Attr): string {
+  return attr.name === 'xmlns' ? '' : attr.name.slice('xmlns:'.length);
+}
+
+/**
+ * Namespace declarations in scope at an element, from its ancestors and itself
+ */
+function namespacesInScope(element: Element): NamespaceMap {
+  const chain: Element[] = [];
+  for (let node: Node | null = element; node && node.nodeType === Node.ELEMENT_NODE; node = node.parentNode) {
+    chain.unshift(node as Element);
+  }
+
+  const scope: NamespaceMap = new Map();
+  for (const el of chain) {
+    for (const attr of Array.from(el.attributes)) {
+      if (isNamespaceDeclaration(attr)) scope.set(declaredPrefix(attr), attr.value);
+    }
+  }
+  return scope;
+}
+
+function prefixOf(qualifiedName: string): string {
+  const colon = qualifiedName.indexOf(':');
+  return colon < 0 ? '' : qualifiedName.slice(0, colon);
+}
+
+function renderElement(
+  element: Element,
+  rendered: NamespaceMap,
+  mode: Canonicalization,
+  exclude: Element | null
+): string {
+  const scope = namespacesInScope(element);
+  const attributes = Array.from(element.attributes).filter((attr) => !isNamespaceDeclaration(attr));
+
+  // Exclusive C14N only emits namespaces the element or its attributes use
+  const candidates = mode === 'inclusive'
+    ? Array.from(scope.keys())
+    : [prefixOf(element.nodeName), ...attributes.map((attr) => prefixOf(attr.name)).filter(Boolean)];
+
+  const declarations: Array<[string, string]> = [];
+  const nextRendered: NamespaceMap = new Map(rendered);
+  for (const prefix of new Set(candidates)) {
+    if (prefix === 'xml') continue;
+    const uri = scope.get(prefix) ?? '';
+    // An empty default namespace is only output to undo a non-empty one above
+    if (prefix === '' && uri === '' && !rendered.get('')) continue;
+    if (rendered.get(prefix) === uri) continue;
+    declarations.push([prefix, uri]);
+    nextRendered.set(prefix, uri);
+  }
+  declarations.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  attributes.sort((a, b) => {
+    const ka = `${a.namespaceURI ?? ''} ${a.localName}`;
+    const kb = `${b.namespaceURI ?? ''} ${b.localName}`;
+    return ka < kb ? -1 : ka > kb ? 1 : 0;
+  });
+
+  let out = `<${element.nodeName}`;
+  for (const [prefix, uri] of declarations) {
+    out += ` ${prefix ? `xmlns:${prefix}` : 'xmlns'}="${escapeAttribute(uri)}"`;
+  }
+  for (const attr of attributes) {
+    out += ` ${attr.name}="${escapeAttribute(attr.value)}"`;
+  }
+  out += '>';
+
+  for (const child of Array.from(element.childNodes)) {
+    if (child === exclude) continue;
+    if (child.nodeType === Node.ELEMENT_NODE) {
+      out += renderElement(child as Element, nextRendered, mode, exclude);
+    } else if (child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
+      out += escapeText(child.nodeValue ?? '');
+    } else if (child.nodeType === Node.PROCESSING_INSTRUCTION_NODE) {
+      const pi = child as ProcessingInstruction;
+      out += `<?${pi.target}${pi.data ? ` ${pi.data}` : ''}?>`;
+    }
+  }
+
+  return out + `</${element.nodeName}>`;
+}
+
+/**
+ * Canonical XML 1.0 of an element subtree, optionally leaving out one descendant
+ */
+export function canonicalizeXml(element: Element, mode: Canonicalization, exclude: Element | null = null): string {
+  return renderElement(element, new Map(), mode, exclude);
+}
+
+function dsigChild(parent: Element, localName: string): Element {
+  const child = Array.from(parent.children).find((el) => el.namespaceURI === DSIG_NS && el.localName === localName);
+  if (!child) throw new AadhaarSignatureError(`Malformed XML signature: missing ${localName}`);
+  return child;
+}
+
+function algorithm(element: Element): string {
+  return element.getAttribute('Algorithm') ?? '';
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64.replace(/\s+/g, '')), (c) => c.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+/**
+ * Verify the enveloped signature of a UIDAI-signed XML document
+ * @param signedAt - When the document was generated, to pick keys valid at that time
+ * @returns Id of the key that produced the signature
+ */
+export async function verifyXmlSignature(doc: Document, signedAt?: Date): Promise<string> {
+  const root = doc.documentElement;
+  const signatures = Array.from(root.getElementsByTagNameNS(DSIG_NS, 'Signature'));
+  if (signatures.length !== 1 || signatures[0].parentNode !== root) {
+    throw new AadhaarSignatureError('Expected exactly one enveloped XML signature');
+  }
+  const signature = signatures[0];
+  // Object content is not covered by the enveloped reference; refuse it so nothing unsigned rides along
+  if (signature.getElementsByTagNameNS('*', 'Object').length > 0) {
+    throw new AadhaarSignatureError('XML signatures carrying Object content are not accepted');
+  }
+
+  const signedInfo = dsigChild(signature, 'SignedInfo');
+  const c14nMode = CANONICALIZATION[algorithm(dsigChild(signedInfo, 'CanonicalizationMethod'))];
+  const signatureHash = SIGNATURE_METHODS[algorithm(dsigChild(signedInfo, 'SignatureMethod'))];
+  if (!c14nMode || !signatureHash) {
+    throw new AadhaarSignatureError('Unsupported XML signature algorithm');
+  }
+
+  // The reference must cover the whole document, minus the signature itself
+  const reference = dsigChild(signedInfo, 'Reference');
+  if ((reference.getAttribute('URI') ?? '') !== '') {
+    throw new AadhaarSignatureError('The XML signature does not cover the whole document');
+  }
+  const transforms = Array.from(reference.getElementsByTagNameNS(DSIG_NS, 'Transform')).map(algorithm);
+  if (!transforms.includes(ENVELOPED_SIGNATURE)) {
+    throw new AadhaarSignatureError('Unsupported XML signature transforms');
+  }
+  let referenceMode: Canonicalization = 'inclusive';
+  for (const transform of transforms) {
+    if (transform === ENVELOPED_SIGNATURE) continue;
+    if (!CANONICALIZATION[transform]) throw new AadhaarSignatureError(`Unsupported XML signature transform: ${transform}`);
+    referenceMode = CANONICALIZATION[transform];
+  }
+  const digestHash = DIGEST_METHODS[algorithm(dsigChild(reference, 'DigestMethod'))];
+  if (!digestHash) {
+    throw new AadhaarSignatureError('Unsupported XML digest algorithm');
+  }
+
+  const content = new TextEncoder().encode(canonicalizeXml(root, referenceMode, signature));
+  const digest = new Uint8Array(await crypto.subtle.digest(digestHash, content as BufferSource));
+  const expectedDigest = dsigChild(reference, 'DigestValue').textContent?.replace(/\s+/g, '') ?? '';
+  if (bytesToBase64(digest) !== expectedDigest) {
+    throw new AadhaarSignatureError('The XML content does not match its signed digest. It may have been altered.');
+  }
+
+  const signatureValue = base64ToBytes(dsigChild(signature, 'SignatureValue').textContent ?? '');
+  return verifyAadhaarSignature(
+    new TextEncoder().encode(canonicalizeXml(signedInfo, c14nMode)),
+    signatureValue,
+    signedAt,
+    signatureHash
+  );
+}
@@ -0,0 +1,5 @@
+import { ProofVerifier } from '../components/ProofVerifier';
+
+export function VerifyPage() {
+    return <ProofVerifier />;
+}
@@ -4,69 +4,54 @@
  */
 
 import { groth16 } from 'snarkjs';
+import { proveInWorker, isProofCancelled } from '../lib/proverPool';
+import type { ProveOptions } from '../lib/proverPool';
+import { getCircuit, listCircuits } from '../lib/circuitRegistry';
+import type { ArtifactKind, CircuitId, ProofBindingContext, ProofData } from '../lib/circuitRegistry';
+import { ArtifactIntegrityError } from '../lib/artifactIntegrity';
+import { hasCachedArtifact, loadProvingArtifacts, loadVerificationKey } from '../lib/artifactCache';
+import { deriveNullifier, hashToField, toIdentitySecret } from '../lib/hashToField';
+import { bindingMatchesSignals, sameBindingContext } from '../lib/proofBinding';
+import { createProofBundle, decodeProofBundle, encodeProofBundle, verifyProofBundle } from '../lib/proofBundle';
+import type { ProofBundleEncoding } from '../lib/proofBundle';
+import type { SignMessage } from '../lib/identityVault';
 
-// Circuit paths - these will be loaded from public/circuits
-const CIRCUIT_PATHS = {
-  age: {
-    wasm: '/circuits/age_proof_js/age_proof.wasm',
-    zkey: '/circuits/age_proof_final.zkey',
-    vkey: '/circuits/age_proof_verification_key.json',
-  },
-  nationality: {
-    wasm: '/circuits/nationality_proof_js/nationality_proof.wasm',
-    zkey: '/circuits/nationality_proof_final.zkey',
-    vkey: '/circuits/nationality_proof_verification_key.json',
-  },
-  uniqueness: {
-    wasm: '/circuits/uniqueness_proof_js/uniqueness_proof.wasm',
-    zkey: '/circuits/uniqueness_proof_final.zkey',
-    vkey: '/circuits/uniqueness_proof_verification_key.json',
-  },
-};
+export type ProofType = CircuitId;
 
-export type ProofType = 'age' | 'nationality' | 'uniqueness';
+export type { ProofBindingContext, ProofData };
 
 export interface CircuitInputs {
   [key: string]: string | string[] | number | bigint;
 }
 
-export interface ProofData {
-  proof: {
-    pi_a: string[];
-    pi_b: string[][];
-    pi_c: string[];
-    protocol: string;
-    curve: string;
-  };
-  publicSignals: string[];
-}
-
 /**
  * Generate a zero-knowledge proof using the specified circuit
  */
 export async function generateProof(
   proofType: ProofType,
-  inputs: CircuitInputs
+  inputs: CircuitInputs,
+  options: ProveOptions = {}
 ): Promise<ProofData> {
   try {
     console.log(`Generating ${proofType} proof...`);
     
-    const circuitPaths = CIRCUIT_PATHS[proofType];
+    const circuit = await getCircuit(proofType);
     
-    // Generate the proof using snarkjs
-    const { proof, publicSignals } = await groth16.fullProve(
-      inputs,
-      circuitPaths.wasm,
-      circuitPaths.zkey
-    );
+    // Only artifacts matching the manifest's pinned hashes reach the prover
+    const { wasm, zkey } = await loadProvingArtifacts(circuit);
+
+    // Generate the proof in the prover worker pool
+    const { proof, publicSignals } = await proveInWorker(inputs, wasm, zkey, options);
 
     console.log(`${proofType} proof generated successfully`);
     
     return {
       proof,
       publicSignals,
+      attributeType: proofType,
     };
   } catch (error) {
+    if (isProofCancelled(error) || error instanceof ArtifactIntegrityError) throw error;
     console.error(`Failed to generate ${proofType} proof:`, error);
     throw new Error(`Proof generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
@@ -82,11 +67,10 @@ export async function verifyProof(
   try {
     console.log(`Verifying ${proofType} proof...`);
     
-    const circuitPaths = CIRCUIT_PATHS[proofType];
+    const circuit = await getCircuit(proofType);
     
-    // Load verification key
-    const vkeyResponse = await fetch(circuitPaths.vkey);
-    const vkey = await vkeyResponse.json();
+    // Load verification key (checked against its pinned hash)
+    const vkey = await loadVerificationKey(circuit);
     
     // Verify the proof
     const isValid = await groth16.verify(
@@ -99,11 +83,38 @@ export async function verifyProof(
     
     return isValid;
   } catch (error) {
+    if (error instanceof ArtifactIntegrityError) throw error;
     console.error(`Failed to verify ${proofType} proof:`, error);
     throw new Error(`Proof verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Check that a proof is bound to the request the verifier issued
+ * Unbound proofs, proofs bound to another context, and tampered anchors all fail,
+ * so a copied proof cannot be replayed against a different challenge or wallet.
+ * Run verifyProof as well; this only checks the binding
+ */
+export async function verifyBinding(
+  proofData: ProofData,
+  expected: ProofBindingContext
+): Promise<boolean> {
+  if (!proofData.binding) {
+    console.warn(`${proofData.attributeType} proof is not bound to any request`);
+    return false;
+  }
+
+  if (!sameBindingContext(proofData.binding.context, expected)) {
+    console.warn(`${proofData.attributeType} proof is bound to a different request`);
+    return false;
+  }
+
+  const circuit = await getCircuit(proofData.attributeType);
+  const isBound = await bindingMatchesSignals(circuit, proofData.publicSignals, proofData.binding);
+  console.log(`${proofData.attributeType} proof binding check:`, isBound);
+  return isBound;
+}
+
 /**
  * Prepare age proof inputs from Aadhaar data
  */
@@ -163,88 +174,102 @@ export function prepareNationalityProofInputs(
 /**
  * Prepare uniqueness proof inputs from Aadhaar data
  */
-export function prepareUniquenessProofInputs(
+export async function prepareUniquenessProofInputs(
   aadhaarData: {
     aadhaarNumber: string;
     aadhaarHash: string;
     signature: string;
   },
   secret: string
-): CircuitInputs {
+): Promise<CircuitInputs> {
   // Convert signature to array
   const signatureArray = aadhaarData.signature.match(/.{1,2}/g)?.map(byte => 
     parseInt(byte, 16).toString()
   ) || [];
   
-  // Generate nullifier from aadhaar number and secret
-  const nullifier = hashToField(aadhaarData.aadhaarNumber + secret);
+  // Generate nullifier from aadhaar number and secret (same derivation as the circuit)
+  const nullifier = await deriveNullifier(
+    await toIdentitySecret(secret),
+    await hashToField(aadhaarData.aadhaarNumber)
+  );
   
   return {
     aadhaarHash: aadhaarData.aadhaarHash,
     signature: signatureArray,
-    nullifier,
+    nullifier: nullifier.toString(),
     secret,
   };
 }
 
 /**
- * Hash a string to a field element (simplified)
+ * Export a proof bound to the holder as a holder-signed bundle (see lib/proofBundle.ts)
  */
-function hashToField(input: string): string {
-  // This is a simplified implementation
-  // In production, use a proper hash function like Poseidon
-  let hash = 0;
-  for (let i = 0; i < input.length; i++) {
-    const char = input.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash).toString();
+export async function exportProof(
+  proofData: ProofData,
+  options: { holder: string; signMessage: SignMessage; expiresAt: number; encoding?: ProofBundleEncoding }
+): Promise<string> {
+  const bundle = await createProofBundle(proofData, options);
+  return encodeProofBundle(bundle, options.encoding);
 }
 
 /**
- * Export proof to JSON format for storage
+ * Import a proof bundle, checking its schema, holder signature, circuit and binding
  */
-export function exportProof(proofData: ProofData): string {
-  return JSON.stringify(proofData, null, 2);
+export async function importProof(bundleText: string): Promise<ProofData> {
+  return verifyProofBundle(decodeProofBundle(bundleText));
 }
 
-/**
- * Import proof from JSON format
- */
-export function importProof(proofJson: string): ProofData {
-  return JSON.parse(proofJson);
+export type ArtifactStatus = 'cached' | 'reachable' | 'unavailable';
+
+export interface CircuitAvailability {
+  reachable: boolean; // every artifact is cached or answered a HEAD request
+  artifacts: Record<ArtifactKind, ArtifactStatus>;
+  verified: boolean; // every artifact is in the local cache, which only holds hash-checked copies
 }
 
 /**
  * Check if circuits are loaded and available
+ * Cached artifacts were verified against the manifest's pinned SHA-256 when stored; the
+ * rest are only probed with HEAD requests, so no artifact is downloaded here
  */
-export async function checkCircuitsAvailable(): Promise<{
-  age: boolean;
-  nationality: boolean;
-  uniqueness: boolean;
-}> {
-  const results = {
-    age: false,
-    nationality: false,
-    uniqueness: false,
+export async function checkCircuitsAvailable(): Promise<Record<ProofType, CircuitAvailability>> {
+  const unavailable = (): CircuitAvailability => ({
+    reachable: false,
+    artifacts: { wasm: 'unavailable', zkey: 'unavailable', vkey: 'unavailable' },
+    verified: false,
+  });
+  const results: Record<ProofType, CircuitAvailability> = {
+    age: unavailable(),
+    nationality: unavailable(),
+    uniqueness: unavailable(),
   };
-  
-  for (const [type, paths] of Object.entries(CIRCUIT_PATHS)) {
-    try {
-      const response = await fetch(paths.wasm, { method: 'HEAD' });
-      results[type as ProofType] = response.ok;
-    } catch {
-      results[type as ProofType] = false;
+
+  for (const circuit of await listCircuits()) {
+    const status = results[circuit.id];
+    for (const kind of Object.keys(circuit.artifacts) as ArtifactKind[]) {
+      if (await hasCachedArtifact(circuit, kind)) {
+        status.artifacts[kind] = 'cached';
+        continue;
+      }
+      try {
+        const response = await fetch(circuit.artifacts[kind], { method: 'HEAD' });
+        status.artifacts[kind] = response.ok ? 'reachable' : 'unavailable';
+      } catch {
+        status.artifacts[kind] = 'unavailable';
+      }
     }
+    const statuses = Object.values(status.artifacts);
+    status.reachable = statuses.every((artifact) => artifact !== 'unavailable');
+    status.verified = statuses.every((artifact) => artifact === 'cached');
   }
-  
+
   return results;
 }
 
 export default {
   generateProof,
   verifyProof,
+  verifyBinding,
   prepareAgeProofInputs,
   prepareNationalityProofInputs,
   prepareUniquenessProofInputs,
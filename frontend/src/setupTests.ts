@@ -0,0 +1,10 @@
+/**
+ * Vitest setup, run before every test file
+ */
+
+// jsdom's TextEncoder returns Uint8Arrays from the jsdom realm, which Node's WebCrypto
+// rejects; copy them into this realm's Uint8Array so crypto.subtle accepts them
+const encode = TextEncoder.prototype.encode;
+TextEncoder.prototype.encode = function (input?: string) {
+  return new Uint8Array(encode.call(this, input));
+};
@@ -0,0 +1,51 @@
+/**
+ * Test signing key for Aadhaar fixtures
+ * The trusted keys are bundled at build time, so test files add this key by mocking the
+ * registry import (the key is generated once per test file):
+ *
+ *   vi.mock('../../public/aadhaar/uidai-keys.json', async (importOriginal) =>
+ *     (await import('../test/aadhaarTestKey')).withTestAadhaarKey(await importOriginal()));
+ */
+
+import type { AadhaarPublicKey } from '../lib/aadhaarSignature';
+
+export const TEST_KEY_ID = 'test-key';
+
+const RSA = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+
+export type FixtureSigner = (data: Uint8Array) => Promise<Uint8Array>;
+
+let testKeys: Promise<CryptoKeyPair> | null = null;
+
+function testKeyPair(): Promise<CryptoKeyPair> {
+  testKeys ??= crypto.subtle.generateKey(
+    { ...RSA, modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) },
+    true,
+    ['sign', 'verify']
+  );
+  return testKeys;
+}
+
+function toPem(spki: ArrayBuffer): string {
+  const base64 = btoa(String.fromCharCode(...new Uint8Array(spki)));
+  return `-----BEGIN PUBLIC KEY-----\n${base64.match(/.{1,64}/g)!.join('\n')}\n-----END PUBLIC KEY-----\n`;
+}
+
+/**
+ * The bundled key registry module with the test key trusted alongside the UIDAI keys
+ */
+export async function withTestAadhaarKey(
+  registryModule: { default: { keys: AadhaarPublicKey[] } }
+): Promise<{ default: { keys: AadhaarPublicKey[] } }> {
+  const { publicKey } = await testKeyPair();
+  const testKey = { id: TEST_KEY_ID, publicKey: toPem(await crypto.subtle.exportKey('spki', publicKey)) };
+  return { default: { ...registryModule.default, keys: [...registryModule.default.keys, testKey] } };
+}
+
+/**
+ * Signer for fixtures with the test key (RSA PKCS#1 v1.5, SHA-256)
+ */
+export async function testAadhaarSigner(): Promise<FixtureSigner> {
+  const { privateKey } = await testKeyPair();
+  return async (data) => new Uint8Array(await crypto.subtle.sign(RSA, privateKey, data as BufferSource));
+}
@@ -0,0 +1,10 @@
+declare module 'circomlibjs' {
+  export interface Poseidon {
+    (inputs: (bigint | number | string)[]): Uint8Array;
+    F: {
+      toObject(value: Uint8Array): bigint;
+      e(value: bigint | number | string): Uint8Array;
+    };
+  }
+  export function buildPoseidon(): Promise<Poseidon>;
+}
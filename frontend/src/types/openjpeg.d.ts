@@ -0,0 +1,24 @@
+declare module '@cornerstonejs/codec-openjpeg/decodewasmjs' {
+  export interface FrameInfo {
+    width: number;
+    height: number;
+    bitsPerSample: number;
+    componentCount: number;
+    isSigned: boolean;
+  }
+
+  export interface J2KDecoder {
+    getEncodedBuffer(length: number): Uint8Array;
+    getDecodedBuffer(): Uint8Array;
+    decode(): void;
+    getFrameInfo(): FrameInfo;
+    delete(): void;
+  }
+
+  export interface OpenJPEGModule {
+    J2KDecoder: new () => J2KDecoder;
+  }
+
+  const OpenJPEGWASM: (options?: { locateFile?: (path: string) => string }) => Promise<OpenJPEGModule>;
+  export default OpenJPEGWASM;
+}
@@ -1,4 +0,0 @@
-declare module 'pako' {
-  const pako: any;
-  export default pako;
-}
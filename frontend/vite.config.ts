@@ -25,6 +25,20 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // Prover workers import snarkjs, which needs the same Node polyfills as the app
+  worker: {
+    format: 'es',
+    plugins: () => [
+      nodePolyfills({
+        globals: {
+          Buffer: true,
+          global: true,
+          process: true,
+        },
+        protocolImports: true,
+      }),
+    ],
+  },
   // Optimize dependencies that need Node polyfills
   optimizeDeps: {
     esbuildOptions: {